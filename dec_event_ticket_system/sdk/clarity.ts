@@ -0,0 +1,222 @@
+// Clarity values in the text form Clarity prints and parses, e.g. u1,
+// 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM or (some {id: u1}). Calls are built
+// from these strings and results decoded from them, so nothing here depends on a
+// transport: Clarinet's chain takes and returns them as they are, and other
+// clients read arguments as Clarity source and print results back, e.g. with
+// Cl.prettyPrint from @stacks/transactions.
+
+// Encoding
+export function uint(value: number | bigint): string
+{
+    return `u${value}`;
+}
+
+export function bool(value: boolean): string
+{
+    return `${value}`;
+}
+
+export function principal(value: string): string
+{
+    return `'${value}`;
+}
+
+export function ascii(value: string): string
+{
+    return `"${escapeString(value)}"`;
+}
+
+export function utf8(value: string): string
+{
+    return `u"${escapeString(value)}"`;
+}
+
+export function buff(value: Uint8Array): string
+{
+    return `0x${bytesToHex(value)}`;
+}
+
+export function list(items: string[]): string
+{
+    return `(list ${items.join(' ')})`;
+}
+
+export function tuple(fields: { [key: string]: string }): string
+{
+    return `{${Object.entries(fields).map(([key, value]) => `${key}: ${value}`).join(', ')}}`;
+}
+
+export function some(value: string): string
+{
+    return `(some ${value})`;
+}
+
+export function none(): string
+{
+    return 'none';
+}
+
+// Decoding
+export function decodeUint(value: string): number
+{
+    if (!/^u\d+$/.test(value)) {
+        throw new Error(`Expected a uint, got ${value}`);
+    }
+    return Number(BigInt(value.slice(1)));
+}
+
+export function decodeBool(value: string): boolean
+{
+    if (value !== 'true' && value !== 'false') {
+        throw new Error(`Expected a bool, got ${value}`);
+    }
+    return value === 'true';
+}
+
+export function decodePrincipal(value: string): string
+{
+    const principal = value.startsWith("'") ? value.slice(1) : value;
+    if (!/^S[0-9A-Z]+(\.[a-zA-Z][a-zA-Z0-9_-]*)?$/.test(principal)) {
+        throw new Error(`Expected a principal, got ${value}`);
+    }
+    return principal;
+}
+
+export function decodeAscii(value: string): string
+{
+    if (!/^"[^]*"$/.test(value)) {
+        throw new Error(`Expected an ASCII string, got ${value}`);
+    }
+    return unescapeString(value.slice(1, -1));
+}
+
+export function decodeUtf8(value: string): string
+{
+    if (!/^u"[^]*"$/.test(value)) {
+        throw new Error(`Expected a UTF-8 string, got ${value}`);
+    }
+    return unescapeString(value.slice(2, -1));
+}
+
+// The bytes as hex, without the 0x prefix
+export function decodeBuff(value: string): string
+{
+    if (!/^0x([0-9a-f]{2})*$/.test(value)) {
+        throw new Error(`Expected a buffer, got ${value}`);
+    }
+    return value.slice(2);
+}
+
+export function decodeOptional<T>(value: string, decode: (inner: string) => T): T | null
+{
+    return value === 'none' ? null : decode(unwrap(value, 'some'));
+}
+
+// The value of an (ok ...) response; an (err ...) is thrown
+export function decodeOk<T>(value: string, decode: (inner: string) => T): T
+{
+    return decode(unwrap(value, 'ok'));
+}
+
+// Printed as [a, b] by Clarity and as (list a b) by @stacks/transactions
+export function decodeList<T>(value: string, decode: (item: string) => T): T[]
+{
+    const text = value.trim();
+    if (text.startsWith('[') && text.endsWith(']')) {
+        return splitTopLevel(text.slice(1, -1), ',').map(decode);
+    }
+    if (/^\(list[\s)]/.test(text) && text.endsWith(')')) {
+        return splitTopLevel(text.slice(5, -1), ' ').map(decode);
+    }
+    throw new Error(`Expected a list, got ${value}`);
+}
+
+// Fields by name, each still in text form
+export function decodeTuple(value: string): { [key: string]: string }
+{
+    const text = value.trim();
+    if (!text.startsWith('{') || !text.endsWith('}')) {
+        throw new Error(`Expected a tuple, got ${value}`);
+    }
+
+    const fields: { [key: string]: string } = {};
+    for (const field of splitTopLevel(text.slice(1, -1), ',')) {
+        const colon = field.indexOf(':');
+        fields[field.slice(0, colon).trim()] = field.slice(colon + 1).trim();
+    }
+    return fields;
+}
+
+// Helpers
+function unwrap(value: string, wrapper: string): string
+{
+    const text = value.trim();
+    if (!text.startsWith(`(${wrapper} `) || !text.endsWith(')')) {
+        throw new Error(`Expected (${wrapper} ...), got ${value}`);
+    }
+    return text.slice(wrapper.length + 2, -1).trim();
+}
+
+// Splits on separators outside any nested value or string; blanks are dropped
+function splitTopLevel(text: string, separator: string): string[]
+{
+    const items: string[] = [];
+    let depth = 0;
+    let inString = false;
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (char === '\\') {
+                i++;
+            } else if (char === '"') {
+                inString = false;
+            }
+        } else if (char === '"') {
+            inString = true;
+        } else if ('([{'.includes(char)) {
+            depth++;
+        } else if (')]}'.includes(char)) {
+            depth--;
+        } else if (depth === 0 && (separator === ' ' ? /\s/.test(char) : char === separator)) {
+            items.push(text.slice(start, i));
+            start = i + 1;
+        }
+    }
+    items.push(text.slice(start));
+
+    return items.map((item) => item.trim()).filter((item) => item !== '');
+}
+
+function escapeString(text: string): string
+{
+    return text.replace(/[\\"]/g, (char) => `\\${char}`);
+}
+
+// Undoes the escaping Clarity prints strings with: ASCII escapes, and each
+// multi-byte character as \u{...} around the hex of its UTF-8 bytes
+function unescapeString(text: string): string
+{
+    const escapes: { [escape: string]: string } = { n: '\n', r: '\r', t: '\t' };
+
+    return text.replace(/\\(u\{([0-9a-fA-F]+)\}|x([0-9a-fA-F]{2})|.)/g, (_, escape: string, utf8?: string, byte?: string) => {
+        if (utf8 !== undefined) {
+            return new TextDecoder().decode(hexToBytes(utf8));
+        }
+        if (byte !== undefined) {
+            return String.fromCharCode(parseInt(byte, 16));
+        }
+        return escapes[escape] ?? escape;
+    });
+}
+
+function hexToBytes(hex: string): Uint8Array
+{
+    return new Uint8Array(hex.match(/../g)!.map((byte) => parseInt(byte, 16)));
+}
+
+function bytesToHex(bytes: Uint8Array): string
+{
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,1341 @@
+// Typed client for the event_ticket_system contract: call builders for every
+// public and read-only function, decoders for their results and the contract's
+// error codes. Calls carry the function name and Clarity values and results are
+// decoded from Clarity values, both in the text form of clarity.ts, so any
+// transport can send them; tests/clarinet.ts runs them on Clarinet's chain.
+
+import { sha256 } from 'https://esm.sh/@noble/hashes@1.1.5/sha256';
+import * as clarity from './clarity.ts';
+import {
+    decodeAscii,
+    decodeBool,
+    decodeBuff,
+    decodeList,
+    decodeOk,
+    decodeOptional,
+    decodePrincipal,
+    decodeTuple,
+    decodeUint,
+    decodeUtf8
+} from './clarity.ts';
+
+// Contract name as deployed by Clarinet.toml
+export const CONTRACT_NAME = 'event_ticket_system';
+
+export const DEFAULT_TIER_ID = 1;
+
+// Revenue split shares add up to this
+export const BASIS_POINTS = 10000;
+
+// Error Codes
+export enum ContractError {
+    NotAuthorized = 1,
+    EventNotFound = 2,
+    SoldOut = 3,
+    TicketNotFound = 4,
+    InvalidPrice = 5,
+    EventExpired = 6,
+    InsufficientFunds = 7,
+    AlreadyExists = 8,
+    TransferNotAllowed = 9,
+    TicketUsed = 10,
+    RefundWindowClosed = 11,
+    FundsLocked = 12,
+    TicketRefunded = 13,
+    InvalidTransferPolicy = 15,
+    ListingNotFound = 16,
+    PriceCapExceeded = 17,
+    EventCancelled = 18,
+    EventNotCancelled = 19,
+    TierNotFound = 20,
+    SalesStarted = 21,
+    TierNotOnSale = 22,
+    SectionNotFound = 23,
+    SeatNotFound = 24,
+    SeatTaken = 25,
+    WalletLimitReached = 26,
+    InvalidQuantity = 27,
+    InvalidPaymentToken = 29,
+    PaymentTokenNotAllowed = 30,
+    ScannerNotFound = 31,
+    SignatureRequired = 32,
+    InvalidChallenge = 33,
+    EventNotOnSale = 34,
+    CheckInClosed = 35,
+    InvalidSchedule = 36,
+    InvalidRefundSchedule = 37,
+    InvalidCapacity = 38,
+    NotSoldOut = 39,
+    NotWaitlisted = 40,
+    EventNotOver = 41,
+    PresaleClosed = 42,
+    NotEligible = 43,
+    PresaleLimitReached = 44,
+    PromoNotFound = 45,
+    PromoExpired = 46,
+    PromoExhausted = 47,
+    InvalidDiscount = 48,
+    MaxPriceExceeded = 49,
+    InvalidSplit = 50,
+    SplitLocked = 51,
+    RefundsUncovered = 52,
+}
+
+// Returns the contract error of an `(err uN)` result, or null for any other result
+export function decodeError(result: string): ContractError | null
+{
+    const match = /^\(err u(\d+)\)$/.exec(result);
+    return match ? Number(match[1]) as ContractError : null;
+}
+
+// Constants
+export enum TransferPolicy {
+    Disabled = 0,
+    Allowed = 1,
+    UntilCutoff = 2, // allowed until transfer-cutoff blocks before the event date
+}
+
+export enum DiscountType {
+    Percent = 0,
+    Fixed = 1,
+}
+
+export enum PricingMode {
+    Linear = 0, // rises by stepIncrease every stepSize tickets sold
+    TimeDecay = 1, // falls from the ceiling at decayStart to the floor at the event date
+}
+
+export enum EventStatus {
+    Draft = 0,
+    OnSale = 1,
+    SalesClosed = 2,
+    Live = 3,
+    Completed = 4,
+    Cancelled = 5,
+}
+
+// Records
+export interface EventRecord {
+    name: string;
+    description: string;
+    organizer: string;
+    venue: string;
+    date: number;
+    totalTickets: number;
+    ticketsSold: number;
+    ticketsRefunded: number;
+    ticketPrice: number;
+    isActive: boolean;
+    refundWindow: number;
+    revenue: number;
+    category: string;
+    transferPolicy: TransferPolicy;
+    transferCutoff: number;
+    tierCount: number;
+    sectionCount: number;
+    walletLimit: number;
+    signedCheckIn: boolean;
+    saleStart: number;
+    saleEnd: number;
+    checkInStart: number;
+    checkInEnd: number;
+    paymentToken: string | null;
+    version: number;
+}
+
+export interface TicketRecord {
+    eventId: number;
+    tierId: number;
+    owner: string;
+    purchasePrice: number;
+    platformFee: number;
+    purchaseDate: number;
+    eventVersion: number;
+    promoCode: string | null; // hex hash of the redeemed promo code
+    isUsed: boolean;
+    isRefunded: boolean;
+    seatSection: number | null;
+    seatRow: number | null;
+    seatNumber: number | null;
+}
+
+export interface TicketTier {
+    name: string;
+    price: number;
+    supply: number;
+    sold: number;
+    saleStart: number | null;
+    saleEnd: number | null;
+}
+
+export interface SeatSection {
+    name: string;
+    tierId: number;
+    priceOverride: number | null;
+    seatCount: number;
+    seatsSold: number;
+}
+
+export interface SeatRow {
+    firstSeat: number;
+    lastSeat: number;
+}
+
+export interface SectionAvailability {
+    seatCount: number;
+    seatsSold: number;
+    seatsAvailable: number;
+}
+
+export interface EventScanner {
+    expiresAt: number | null;
+}
+
+export interface TicketCheckIn {
+    scanner: string;
+    checkedInAt: number;
+}
+
+export interface OrganizerRevenue {
+    totalRevenue: number;
+    pendingWithdrawals: number;
+    eventsOrganized: number;
+}
+
+export interface EventEscrow {
+    balance: number;
+    withdrawn: number;
+    platformFees: number;
+    feesHeld: number; // platform fees of the tickets a refund could still claim
+    lastSale: number;
+}
+
+export interface RevenueShare {
+    payee: string;
+    share: number; // basis points
+}
+
+export interface RevenueSplit {
+    payees: RevenueShare[];
+    locked: boolean; // once the first ticket sells
+}
+
+export interface PayeeStatement {
+    share: number;
+    credited: number;
+    debited: number;
+    withdrawn: number;
+    held: number; // proceeds of the tickets a refund could still claim
+    balance: number;
+}
+
+export interface RefundRule {
+    blocksBefore: number;
+    percent: number;
+}
+
+export interface ChangeRefundWindow {
+    version: number;
+    endsAt: number;
+}
+
+export interface EventCancellation {
+    cancelledBy: string;
+    cancelledAt: number;
+    unclaimedRefunds: number;
+}
+
+export interface Presale {
+    merkleRoot: string; // hex, without the 0x prefix
+    start: number;
+    end: number;
+    walletCap: number;
+}
+
+export interface PricingCurve {
+    mode: PricingMode;
+    stepSize: number;
+    stepIncrease: number;
+    decayStart: number;
+    floorPrice: number;
+    ceilingPrice: number;
+}
+
+export interface PromoCode {
+    discountType: DiscountType;
+    discount: number;
+    maxUses: number;
+    expiresAt: number;
+    uses: number;
+    totalDiscount: number;
+    revenue: number;
+}
+
+export interface PromoCodeReport {
+    uses: number;
+    remainingUses: number;
+    totalDiscount: number;
+    revenue: number;
+    expiresAt: number;
+    isExpired: boolean;
+}
+
+export interface Waitlist {
+    head: number | null;
+    tail: number | null;
+    length: number;
+    nextPosition: number;
+}
+
+export interface WaitlistEntry {
+    buyer: string;
+    amount: number;
+    joinedAt: number;
+    prev: number | null;
+    next: number | null;
+}
+
+export interface ResalePolicy {
+    maxMarkupPercent: number;
+    royaltyPercent: number;
+}
+
+export interface ResaleListing {
+    seller: string;
+    price: number;
+    listedAt: number;
+}
+
+// Transaction Builders
+
+// A call to one of the contract's public functions, ready to be signed and sent by an account
+export class ContractCall
+{
+    constructor(readonly functionName: string, readonly args: string[]) {}
+}
+
+// A call to one of the contract's read-only functions and the decoder for its result
+export class ReadOnlyCall<T>
+{
+    constructor(readonly functionName: string, readonly args: string[], readonly decode: (result: string) => T) {}
+}
+
+// SIP-010 token contract to pay with, STX when left out
+export interface PaymentOptions {
+    paymentToken?: string;
+}
+
+// With maxPrice a purchase fails rather than pay more for a ticket, e.g. after a pricing curve moved
+export interface PurchaseOptions extends PaymentOptions {
+    maxPrice?: number;
+}
+
+export interface CreateEventParams {
+    name: string;
+    description: string;
+    venue: string;
+    date: number;
+    totalTickets: number;
+    ticketPrice: number;
+    refundWindow: number;
+    category: string;
+    transferPolicy: TransferPolicy;
+    transferCutoff?: number;
+    paymentToken?: string;
+    revenueSplit?: RevenueShare[]; // the organizer takes everything when left out
+}
+
+export interface TicketTierParams {
+    name: string;
+    price: number;
+    supply: number;
+    saleStart?: number;
+    saleEnd?: number;
+}
+
+export interface EventSchedule {
+    saleStart: number;
+    saleEnd: number;
+    checkInStart: number;
+    checkInEnd: number;
+}
+
+// Fields left out are not changed
+export interface EventChanges {
+    name?: string;
+    description?: string;
+    venue?: string;
+    date?: number;
+    totalTickets?: number;
+    ticketPrice?: number;
+    category?: string;
+}
+
+export interface LinearPricingParams {
+    stepSize: number;
+    stepIncrease: number;
+    floorPrice: number;
+    ceilingPrice: number;
+}
+
+export interface TimeDecayPricingParams {
+    decayStart: number;
+    floorPrice: number;
+    ceilingPrice: number;
+}
+
+export interface PromoCodeParams {
+    code: string;
+    discountType: DiscountType;
+    discount: number; // percent, or an amount in the event's payment asset
+    maxUses: number;
+    expiresAt: number;
+}
+
+export interface PresaleParams {
+    merkleRoot: Uint8Array;
+    start: number;
+    end: number;
+    walletCap: number; // 0 for no cap
+}
+
+export interface SeatSectionParams {
+    name: string;
+    tierId: number;
+    priceOverride?: number;
+}
+
+export function createEvent(params: CreateEventParams): ContractCall
+{
+    return new ContractCall('create-event', [
+        clarity.utf8(params.name),
+        clarity.utf8(params.description),
+        clarity.utf8(params.venue),
+        clarity.uint(params.date),
+        clarity.uint(params.totalTickets),
+        clarity.uint(params.ticketPrice),
+        clarity.uint(params.refundWindow),
+        clarity.utf8(params.category),
+        clarity.uint(params.transferPolicy),
+        clarity.uint(params.transferCutoff ?? 0),
+        optionalPrincipal(params.paymentToken),
+        encodeRevenueSplit(params.revenueSplit ?? [])
+    ]);
+}
+
+export function addTicketTier(eventId: number, params: TicketTierParams): ContractCall
+{
+    return new ContractCall('add-ticket-tier', [
+        clarity.uint(eventId),
+        clarity.utf8(params.name),
+        clarity.uint(params.price),
+        clarity.uint(params.supply),
+        optionalUint(params.saleStart),
+        optionalUint(params.saleEnd)
+    ]);
+}
+
+export function setWalletLimit(eventId: number, walletLimit: number): ContractCall
+{
+    return new ContractCall('set-wallet-limit', [clarity.uint(eventId), clarity.uint(walletLimit)]);
+}
+
+export function setEventSchedule(eventId: number, schedule: EventSchedule): ContractCall
+{
+    return new ContractCall('set-event-schedule', [
+        clarity.uint(eventId),
+        clarity.uint(schedule.saleStart),
+        clarity.uint(schedule.saleEnd),
+        clarity.uint(schedule.checkInStart),
+        clarity.uint(schedule.checkInEnd)
+    ]);
+}
+
+export function updateEvent(eventId: number, changes: EventChanges): ContractCall
+{
+    return new ContractCall('update-event', [
+        clarity.uint(eventId),
+        optionalUtf8(changes.name),
+        optionalUtf8(changes.description),
+        optionalUtf8(changes.venue),
+        optionalUint(changes.date),
+        optionalUint(changes.totalTickets),
+        optionalUint(changes.ticketPrice),
+        optionalUtf8(changes.category)
+    ]);
+}
+
+export function setEventBaseUri(eventId: number, baseUri: string): ContractCall
+{
+    return new ContractCall('set-event-base-uri', [clarity.uint(eventId), clarity.ascii(baseUri)]);
+}
+
+export function purchaseTicket(eventId: number, options: PurchaseOptions & { tierId?: number; promoCode?: string } = {}): ContractCall
+{
+    return new ContractCall('purchase-ticket', [
+        clarity.uint(eventId),
+        clarity.uint(options.tierId ?? DEFAULT_TIER_ID),
+        optionalPrincipal(options.paymentToken),
+        options.promoCode === undefined ? clarity.none() : clarity.some(clarity.buff(encodePromoCode(options.promoCode))),
+        optionalUint(options.maxPrice)
+    ]);
+}
+
+export function purchaseTickets(eventId: number, quantity: number, options: PurchaseOptions & { tierId?: number } = {}): ContractCall
+{
+    return new ContractCall('purchase-tickets', [
+        clarity.uint(eventId),
+        clarity.uint(options.tierId ?? DEFAULT_TIER_ID),
+        clarity.uint(quantity),
+        optionalPrincipal(options.paymentToken),
+        optionalUint(options.maxPrice)
+    ]);
+}
+
+// Promo codes are registered by their sha256 and redeemed with the code's raw bytes, up to 32 of them
+export function hashPromoCode(code: string): Uint8Array
+{
+    return sha256(encodePromoCode(code));
+}
+
+// Only the hash of the code goes on chain
+export function addPromoCode(eventId: number, params: PromoCodeParams): ContractCall
+{
+    return new ContractCall('add-promo-code', [
+        clarity.uint(eventId),
+        clarity.buff(hashPromoCode(params.code)),
+        clarity.uint(params.discountType),
+        clarity.uint(params.discount),
+        clarity.uint(params.maxUses),
+        clarity.uint(params.expiresAt)
+    ]);
+}
+
+export function setPresale(eventId: number, params: PresaleParams): ContractCall
+{
+    return new ContractCall('set-presale', [
+        clarity.uint(eventId),
+        clarity.buff(params.merkleRoot),
+        clarity.uint(params.start),
+        clarity.uint(params.end),
+        clarity.uint(params.walletCap)
+    ]);
+}
+
+// The proof comes from getMerkleProof in merkle.ts
+export function presalePurchase(eventId: number, proof: Uint8Array[], options: PurchaseOptions & { tierId?: number } = {}): ContractCall
+{
+    return new ContractCall('presale-purchase', [
+        clarity.uint(eventId),
+        clarity.uint(options.tierId ?? DEFAULT_TIER_ID),
+        encodeProof(proof),
+        optionalPrincipal(options.paymentToken),
+        optionalUint(options.maxPrice)
+    ]);
+}
+
+export function setRevenueSplit(eventId: number, payees: RevenueShare[]): ContractCall
+{
+    return new ContractCall('set-revenue-split', [clarity.uint(eventId), encodeRevenueSplit(payees)]);
+}
+
+export function setLinearPricing(eventId: number, params: LinearPricingParams): ContractCall
+{
+    return new ContractCall('set-linear-pricing', [
+        clarity.uint(eventId),
+        clarity.uint(params.stepSize),
+        clarity.uint(params.stepIncrease),
+        clarity.uint(params.floorPrice),
+        clarity.uint(params.ceilingPrice)
+    ]);
+}
+
+export function setTimeDecayPricing(eventId: number, params: TimeDecayPricingParams): ContractCall
+{
+    return new ContractCall('set-time-decay-pricing', [
+        clarity.uint(eventId),
+        clarity.uint(params.decayStart),
+        clarity.uint(params.floorPrice),
+        clarity.uint(params.ceilingPrice)
+    ]);
+}
+
+export function clearPricingCurve(eventId: number): ContractCall
+{
+    return new ContractCall('clear-pricing-curve', [clarity.uint(eventId)]);
+}
+
+export function addSeatSection(eventId: number, params: SeatSectionParams): ContractCall
+{
+    return new ContractCall('add-seat-section', [
+        clarity.uint(eventId),
+        clarity.utf8(params.name),
+        clarity.uint(params.tierId),
+        optionalUint(params.priceOverride)
+    ]);
+}
+
+export function addSeatRow(eventId: number, sectionId: number, row: number, firstSeat: number, lastSeat: number): ContractCall
+{
+    return new ContractCall('add-seat-row', [
+        clarity.uint(eventId),
+        clarity.uint(sectionId),
+        clarity.uint(row),
+        clarity.uint(firstSeat),
+        clarity.uint(lastSeat)
+    ]);
+}
+
+export function purchaseSeat(eventId: number, sectionId: number, row: number, seat: number, options: PurchaseOptions = {}): ContractCall
+{
+    return new ContractCall('purchase-seat', [
+        clarity.uint(eventId),
+        clarity.uint(sectionId),
+        clarity.uint(row),
+        clarity.uint(seat),
+        optionalPrincipal(options.paymentToken),
+        optionalUint(options.maxPrice)
+    ]);
+}
+
+export function addEventScanner(eventId: number, scanner: string, expiresAt?: number): ContractCall
+{
+    return new ContractCall('add-event-scanner', [clarity.uint(eventId), clarity.principal(scanner), optionalUint(expiresAt)]);
+}
+
+export function removeEventScanner(eventId: number, scanner: string): ContractCall
+{
+    return new ContractCall('remove-event-scanner', [clarity.uint(eventId), clarity.principal(scanner)]);
+}
+
+export function validateTicket(ticketId: number): ContractCall
+{
+    return new ContractCall('validate-ticket', [clarity.uint(ticketId)]);
+}
+
+// The signature is the holder's 65-byte recoverable signature over get-check-in-challenge
+export function validateTicketSigned(ticketId: number, signedAt: number, signature: Uint8Array): ContractCall
+{
+    return new ContractCall('validate-ticket-signed', [clarity.uint(ticketId), clarity.uint(signedAt), clarity.buff(signature)]);
+}
+
+export function setSignedCheckIn(eventId: number, required: boolean): ContractCall
+{
+    return new ContractCall('set-signed-check-in', [clarity.uint(eventId), clarity.bool(required)]);
+}
+
+export function refundTicket(ticketId: number, options: PaymentOptions = {}): ContractCall
+{
+    return new ContractCall('refund-ticket', [clarity.uint(ticketId), optionalPrincipal(options.paymentToken)]);
+}
+
+export function setRefundSchedule(eventId: number, rules: RefundRule[]): ContractCall
+{
+    return new ContractCall('set-refund-schedule', [
+        clarity.uint(eventId),
+        clarity.list(rules.map((rule) => clarity.tuple({
+            'blocks-before': clarity.uint(rule.blocksBefore),
+            'percent': clarity.uint(rule.percent)
+        })))
+    ]);
+}
+
+export function cancelEvent(eventId: number, options: PaymentOptions = {}): ContractCall
+{
+    return new ContractCall('cancel-event', [clarity.uint(eventId), optionalPrincipal(options.paymentToken)]);
+}
+
+export function claimCancellationRefund(ticketId: number, options: PaymentOptions = {}): ContractCall
+{
+    return new ContractCall('claim-cancellation-refund', [clarity.uint(ticketId), optionalPrincipal(options.paymentToken)]);
+}
+
+export function joinWaitlist(eventId: number, options: PurchaseOptions = {}): ContractCall
+{
+    return new ContractCall('join-waitlist', [clarity.uint(eventId), optionalPrincipal(options.paymentToken), optionalUint(options.maxPrice)]);
+}
+
+export function leaveWaitlist(eventId: number, options: PaymentOptions = {}): ContractCall
+{
+    return new ContractCall('leave-waitlist', [clarity.uint(eventId), optionalPrincipal(options.paymentToken)]);
+}
+
+export function releaseWaitlist(eventId: number, options: PaymentOptions = {}): ContractCall
+{
+    return new ContractCall('release-waitlist', [clarity.uint(eventId), optionalPrincipal(options.paymentToken)]);
+}
+
+export function claimWaitlistRefund(eventId: number, options: PaymentOptions = {}): ContractCall
+{
+    return new ContractCall('claim-waitlist-refund', [clarity.uint(eventId), optionalPrincipal(options.paymentToken)]);
+}
+
+export function transferTicket(ticketId: number, recipient: string): ContractCall
+{
+    return new ContractCall('transfer-ticket', [clarity.uint(ticketId), clarity.principal(recipient)]);
+}
+
+// SIP-009 transfer
+export function transfer(tokenId: number, sender: string, recipient: string): ContractCall
+{
+    return new ContractCall('transfer', [clarity.uint(tokenId), clarity.principal(sender), clarity.principal(recipient)]);
+}
+
+export function setResalePolicy(eventId: number, maxMarkupPercent: number, royaltyPercent: number): ContractCall
+{
+    return new ContractCall('set-resale-policy', [clarity.uint(eventId), clarity.uint(maxMarkupPercent), clarity.uint(royaltyPercent)]);
+}
+
+export function listTicketForResale(ticketId: number, price: number): ContractCall
+{
+    return new ContractCall('list-ticket-for-resale', [clarity.uint(ticketId), clarity.uint(price)]);
+}
+
+export function cancelResaleListing(ticketId: number): ContractCall
+{
+    return new ContractCall('cancel-resale-listing', [clarity.uint(ticketId)]);
+}
+
+export function buyResaleTicket(ticketId: number, options: PaymentOptions = {}): ContractCall
+{
+    return new ContractCall('buy-resale-ticket', [clarity.uint(ticketId), optionalPrincipal(options.paymentToken)]);
+}
+
+export function withdrawRevenue(eventId: number, amount: number, options: PaymentOptions = {}): ContractCall
+{
+    return new ContractCall('withdraw-revenue', [clarity.uint(eventId), clarity.uint(amount), optionalPrincipal(options.paymentToken)]);
+}
+
+export function withdrawProceeds(eventId: number, options: PaymentOptions = {}): ContractCall
+{
+    return new ContractCall('withdraw-proceeds', [clarity.uint(eventId), optionalPrincipal(options.paymentToken)]);
+}
+
+export function updatePlatformFee(newFee: number): ContractCall
+{
+    return new ContractCall('update-platform-fee', [clarity.uint(newFee)]);
+}
+
+export function updateMinTicketPrice(newPrice: number): ContractCall
+{
+    return new ContractCall('update-min-ticket-price', [clarity.uint(newPrice)]);
+}
+
+export function collectPlatformFees(eventId: number): ContractCall
+{
+    return new ContractCall('collect-platform-fees', [clarity.uint(eventId)]);
+}
+
+export function withdrawPlatformFees(amount: number, options: PaymentOptions = {}): ContractCall
+{
+    return new ContractCall('withdraw-platform-fees', [clarity.uint(amount), optionalPrincipal(options.paymentToken)]);
+}
+
+export function setPaymentTokenAllowed(token: string, allowed: boolean): ContractCall
+{
+    return new ContractCall('set-payment-token-allowed', [clarity.principal(token), clarity.bool(allowed)]);
+}
+
+// Read-Only Calls
+export function getEvent(eventId: number): ReadOnlyCall<EventRecord | null>
+{
+    return new ReadOnlyCall('get-event', [clarity.uint(eventId)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                name: decodeUtf8(tuple['name']),
+                description: decodeUtf8(tuple['description']),
+                organizer: decodePrincipal(tuple['organizer']),
+                venue: decodeUtf8(tuple['venue']),
+                date: decodeUint(tuple['date']),
+                totalTickets: decodeUint(tuple['total-tickets']),
+                ticketsSold: decodeUint(tuple['tickets-sold']),
+                ticketsRefunded: decodeUint(tuple['tickets-refunded']),
+                ticketPrice: decodeUint(tuple['ticket-price']),
+                isActive: decodeBool(tuple['is-active']),
+                refundWindow: decodeUint(tuple['refund-window']),
+                revenue: decodeUint(tuple['revenue']),
+                category: decodeUtf8(tuple['category']),
+                transferPolicy: decodeUint(tuple['transfer-policy']) as TransferPolicy,
+                transferCutoff: decodeUint(tuple['transfer-cutoff']),
+                tierCount: decodeUint(tuple['tier-count']),
+                sectionCount: decodeUint(tuple['section-count']),
+                walletLimit: decodeUint(tuple['wallet-limit']),
+                signedCheckIn: decodeBool(tuple['signed-check-in']),
+                saleStart: decodeUint(tuple['sale-start']),
+                saleEnd: decodeUint(tuple['sale-end']),
+                checkInStart: decodeUint(tuple['check-in-start']),
+                checkInEnd: decodeUint(tuple['check-in-end']),
+                paymentToken: decodeOptional(tuple['payment-token'], decodePrincipal),
+                version: decodeUint(tuple['version'])
+            };
+        })
+    );
+}
+
+export function getEventStatus(eventId: number): ReadOnlyCall<EventStatus | null>
+{
+    return new ReadOnlyCall('get-event-status', [clarity.uint(eventId)], (result) => decodeOptional(result, (value) => decodeUint(value) as EventStatus));
+}
+
+export function getTicket(ticketId: number): ReadOnlyCall<TicketRecord | null>
+{
+    return new ReadOnlyCall('get-ticket', [clarity.uint(ticketId)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                eventId: decodeUint(tuple['event-id']),
+                tierId: decodeUint(tuple['tier-id']),
+                owner: decodePrincipal(tuple['owner']),
+                purchasePrice: decodeUint(tuple['purchase-price']),
+                platformFee: decodeUint(tuple['platform-fee']),
+                purchaseDate: decodeUint(tuple['purchase-date']),
+                eventVersion: decodeUint(tuple['event-version']),
+                promoCode: decodeOptional(tuple['promo-code'], decodeBuff),
+                isUsed: decodeBool(tuple['is-used']),
+                isRefunded: decodeBool(tuple['is-refunded']),
+                seatSection: decodeOptional(tuple['seat-section'], decodeUint),
+                seatRow: decodeOptional(tuple['seat-row'], decodeUint),
+                seatNumber: decodeOptional(tuple['seat-number'], decodeUint)
+            };
+        })
+    );
+}
+
+export function getTicketTier(eventId: number, tierId: number): ReadOnlyCall<TicketTier | null>
+{
+    return new ReadOnlyCall('get-ticket-tier', [clarity.uint(eventId), clarity.uint(tierId)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                name: decodeUtf8(tuple['name']),
+                price: decodeUint(tuple['price']),
+                supply: decodeUint(tuple['supply']),
+                sold: decodeUint(tuple['sold']),
+                saleStart: decodeOptional(tuple['sale-start'], decodeUint),
+                saleEnd: decodeOptional(tuple['sale-end'], decodeUint)
+            };
+        })
+    );
+}
+
+export function isTierOnSale(eventId: number, tierId: number): ReadOnlyCall<boolean>
+{
+    return new ReadOnlyCall('is-tier-on-sale', [clarity.uint(eventId), clarity.uint(tierId)], decodeBool);
+}
+
+export function getSeatSection(eventId: number, sectionId: number): ReadOnlyCall<SeatSection | null>
+{
+    return new ReadOnlyCall('get-seat-section', [clarity.uint(eventId), clarity.uint(sectionId)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                name: decodeUtf8(tuple['name']),
+                tierId: decodeUint(tuple['tier-id']),
+                priceOverride: decodeOptional(tuple['price-override'], decodeUint),
+                seatCount: decodeUint(tuple['seat-count']),
+                seatsSold: decodeUint(tuple['seats-sold'])
+            };
+        })
+    );
+}
+
+export function getSeatRow(eventId: number, sectionId: number, row: number): ReadOnlyCall<SeatRow | null>
+{
+    return new ReadOnlyCall('get-seat-row', [clarity.uint(eventId), clarity.uint(sectionId), clarity.uint(row)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                firstSeat: decodeUint(tuple['first-seat']),
+                lastSeat: decodeUint(tuple['last-seat'])
+            };
+        })
+    );
+}
+
+// The ID of the ticket holding the seat, or null if the seat is free
+export function getSeatAssignment(eventId: number, sectionId: number, row: number, seat: number): ReadOnlyCall<number | null>
+{
+    return new ReadOnlyCall('get-seat-assignment', [clarity.uint(eventId), clarity.uint(sectionId), clarity.uint(row), clarity.uint(seat)], (result) =>
+        decodeOptional(
+            result,
+            (value) => decodeUint(decodeTuple(value)['ticket-id'])
+        )
+    );
+}
+
+export function getSectionAvailability(eventId: number, sectionId: number): ReadOnlyCall<SectionAvailability | null>
+{
+    return new ReadOnlyCall('get-section-availability', [clarity.uint(eventId), clarity.uint(sectionId)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                seatCount: decodeUint(tuple['seat-count']),
+                seatsSold: decodeUint(tuple['seats-sold']),
+                seatsAvailable: decodeUint(tuple['seats-available'])
+            };
+        })
+    );
+}
+
+export function getEventBaseUri(eventId: number): ReadOnlyCall<string | null>
+{
+    return new ReadOnlyCall('get-event-base-uri', [clarity.uint(eventId)], (result) => decodeOptional(result, decodeAscii));
+}
+
+export function getWalletPurchases(eventId: number, buyer: string): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('get-wallet-purchases', [clarity.uint(eventId), clarity.principal(buyer)], decodeUint);
+}
+
+export function getPricingCurve(eventId: number): ReadOnlyCall<PricingCurve | null>
+{
+    return new ReadOnlyCall('get-pricing-curve', [clarity.uint(eventId)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                mode: decodeUint(tuple['mode']) as PricingMode,
+                stepSize: decodeUint(tuple['step-size']),
+                stepIncrease: decodeUint(tuple['step-increase']),
+                decayStart: decodeUint(tuple['decay-start']),
+                floorPrice: decodeUint(tuple['floor-price']),
+                ceilingPrice: decodeUint(tuple['ceiling-price'])
+            };
+        })
+    );
+}
+
+// What the next general admission buyer pays before any promo code, or null if the event doesn't exist
+export function getCurrentPrice(eventId: number): ReadOnlyCall<number | null>
+{
+    return new ReadOnlyCall('get-current-price', [clarity.uint(eventId)], (result) => decodeOptional(result, decodeUint));
+}
+
+export function getPromoCode(eventId: number, code: string): ReadOnlyCall<PromoCode | null>
+{
+    return new ReadOnlyCall('get-promo-code', [clarity.uint(eventId), clarity.buff(hashPromoCode(code))], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                discountType: decodeUint(tuple['discount-type']) as DiscountType,
+                discount: decodeUint(tuple['discount']),
+                maxUses: decodeUint(tuple['max-uses']),
+                expiresAt: decodeUint(tuple['expires-at']),
+                uses: decodeUint(tuple['uses']),
+                totalDiscount: decodeUint(tuple['total-discount']),
+                revenue: decodeUint(tuple['revenue'])
+            };
+        })
+    );
+}
+
+export function getPromoCodeReport(eventId: number, code: string): ReadOnlyCall<PromoCodeReport | null>
+{
+    return new ReadOnlyCall('get-promo-code-report', [clarity.uint(eventId), clarity.buff(hashPromoCode(code))], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                uses: decodeUint(tuple['uses']),
+                remainingUses: decodeUint(tuple['remaining-uses']),
+                totalDiscount: decodeUint(tuple['total-discount']),
+                revenue: decodeUint(tuple['revenue']),
+                expiresAt: decodeUint(tuple['expires-at']),
+                isExpired: decodeBool(tuple['is-expired'])
+            };
+        })
+    );
+}
+
+export function getPresale(eventId: number): ReadOnlyCall<Presale | null>
+{
+    return new ReadOnlyCall('get-presale', [clarity.uint(eventId)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                merkleRoot: decodeBuff(tuple['merkle-root']),
+                start: decodeUint(tuple['start']),
+                end: decodeUint(tuple['end']),
+                walletCap: decodeUint(tuple['wallet-cap'])
+            };
+        })
+    );
+}
+
+export function isPresaleOpen(eventId: number): ReadOnlyCall<boolean>
+{
+    return new ReadOnlyCall('is-presale-open', [clarity.uint(eventId)], decodeBool);
+}
+
+export function getPresalePurchases(eventId: number, buyer: string): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('get-presale-purchases', [clarity.uint(eventId), clarity.principal(buyer)], decodeUint);
+}
+
+export function isPresaleEligible(eventId: number, buyer: string, proof: Uint8Array[]): ReadOnlyCall<boolean>
+{
+    return new ReadOnlyCall('is-presale-eligible', [clarity.uint(eventId), clarity.principal(buyer), encodeProof(proof)], decodeBool);
+}
+
+export function getUserTicketCount(user: string): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('get-user-ticket-count', [clarity.principal(user)], decodeUint);
+}
+
+export function getUserTicketsPage(user: string, offset: number, limit: number): ReadOnlyCall<number[]>
+{
+    return new ReadOnlyCall('get-user-tickets-page', [clarity.principal(user), clarity.uint(offset), clarity.uint(limit)], (result) => decodeList(result, decodeUint));
+}
+
+export function getEventTicketCount(eventId: number): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('get-event-ticket-count', [clarity.uint(eventId)], decodeUint);
+}
+
+export function getEventTicketsPage(eventId: number, offset: number, limit: number): ReadOnlyCall<number[]>
+{
+    return new ReadOnlyCall('get-event-tickets-page', [clarity.uint(eventId), clarity.uint(offset), clarity.uint(limit)], (result) => decodeList(result, decodeUint));
+}
+
+export function getEventScanner(eventId: number, scanner: string): ReadOnlyCall<EventScanner | null>
+{
+    return new ReadOnlyCall('get-event-scanner', [clarity.uint(eventId), clarity.principal(scanner)], (result) =>
+        decodeOptional(result, (value) => ({
+            expiresAt: decodeOptional(decodeTuple(value)['expires-at'], decodeUint)
+        }))
+    );
+}
+
+export function isEventScanner(eventId: number, scanner: string): ReadOnlyCall<boolean>
+{
+    return new ReadOnlyCall('is-event-scanner', [clarity.uint(eventId), clarity.principal(scanner)], decodeBool);
+}
+
+export function getTicketNonce(ticketId: number): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('get-ticket-nonce', [clarity.uint(ticketId)], decodeUint);
+}
+
+// The 32-byte challenge hash as hex, without the 0x prefix
+export function getCheckInChallenge(ticketId: number, signedAt: number): ReadOnlyCall<string>
+{
+    return new ReadOnlyCall('get-check-in-challenge', [clarity.uint(ticketId), clarity.uint(signedAt)], decodeBuff);
+}
+
+export function getTicketCheckIn(ticketId: number): ReadOnlyCall<TicketCheckIn | null>
+{
+    return new ReadOnlyCall('get-ticket-check-in', [clarity.uint(ticketId)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                scanner: decodePrincipal(tuple['scanner']),
+                checkedInAt: decodeUint(tuple['checked-in-at'])
+            };
+        })
+    );
+}
+
+export function getEventCheckInCount(eventId: number): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('get-event-check-in-count', [clarity.uint(eventId)], decodeUint);
+}
+
+export function getEventCheckInsPage(eventId: number, offset: number, limit: number): ReadOnlyCall<number[]>
+{
+    return new ReadOnlyCall('get-event-check-ins-page', [clarity.uint(eventId), clarity.uint(offset), clarity.uint(limit)], (result) => decodeList(result, decodeUint));
+}
+
+export function getOrganizerRevenue(organizer: string): ReadOnlyCall<OrganizerRevenue | null>
+{
+    return new ReadOnlyCall('get-organizer-revenue', [clarity.principal(organizer)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                totalRevenue: decodeUint(tuple['total-revenue']),
+                pendingWithdrawals: decodeUint(tuple['pending-withdrawals']),
+                eventsOrganized: decodeUint(tuple['events-organized'])
+            };
+        })
+    );
+}
+
+export function getEventEscrow(eventId: number): ReadOnlyCall<EventEscrow | null>
+{
+    return new ReadOnlyCall('get-event-escrow', [clarity.uint(eventId)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                balance: decodeUint(tuple['balance']),
+                withdrawn: decodeUint(tuple['withdrawn']),
+                platformFees: decodeUint(tuple['platform-fees']),
+                feesHeld: decodeUint(tuple['fees-held']),
+                lastSale: decodeUint(tuple['last-sale'])
+            };
+        })
+    );
+}
+
+export function getRevenueSplit(eventId: number): ReadOnlyCall<RevenueSplit | null>
+{
+    return new ReadOnlyCall('get-revenue-split', [clarity.uint(eventId)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                payees: decodeList(tuple['payees'], (entry) => {
+                    const share = decodeTuple(entry);
+                    return {
+                        payee: decodePrincipal(share['payee']),
+                        share: decodeUint(share['share'])
+                    };
+                }),
+                locked: decodeBool(tuple['locked'])
+            };
+        })
+    );
+}
+
+export function getPayeeStatement(eventId: number, payee: string): ReadOnlyCall<PayeeStatement | null>
+{
+    return new ReadOnlyCall('get-payee-statement', [clarity.uint(eventId), clarity.principal(payee)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                share: decodeUint(tuple['share']),
+                credited: decodeUint(tuple['credited']),
+                debited: decodeUint(tuple['debited']),
+                withdrawn: decodeUint(tuple['withdrawn']),
+                held: decodeUint(tuple['held']),
+                balance: decodeUint(tuple['balance'])
+            };
+        })
+    );
+}
+
+export function isEscrowSettled(eventId: number): ReadOnlyCall<boolean>
+{
+    return new ReadOnlyCall('is-escrow-settled', [clarity.uint(eventId)], decodeBool);
+}
+
+export function isEscrowCovered(eventId: number): ReadOnlyCall<boolean>
+{
+    return new ReadOnlyCall('is-escrow-covered', [clarity.uint(eventId)], decodeBool);
+}
+
+export function getWithdrawableBalance(eventId: number, payee: string): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('get-withdrawable-balance', [clarity.uint(eventId), clarity.principal(payee)], decodeUint);
+}
+
+export function getCollectableFees(eventId: number): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('get-collectable-fees', [clarity.uint(eventId)], decodeUint);
+}
+
+export function getRefundSchedule(eventId: number): ReadOnlyCall<RefundRule[] | null>
+{
+    return new ReadOnlyCall('get-refund-schedule', [clarity.uint(eventId)], (result) =>
+        decodeOptional(result, (value) =>
+            decodeList(decodeTuple(value)['rules'], (rule) => {
+                const tuple = decodeTuple(rule);
+                return {
+                    blocksBefore: decodeUint(tuple['blocks-before']),
+                    percent: decodeUint(tuple['percent'])
+                };
+            })
+        )
+    );
+}
+
+export function getScheduledRefundPercent(eventId: number): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('get-scheduled-refund-percent', [clarity.uint(eventId)], decodeUint);
+}
+
+export function getChangeRefundWindow(eventId: number): ReadOnlyCall<ChangeRefundWindow | null>
+{
+    return new ReadOnlyCall('get-change-refund-window', [clarity.uint(eventId)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                version: decodeUint(tuple['version']),
+                endsAt: decodeUint(tuple['ends-at'])
+            };
+        })
+    );
+}
+
+export function isChangeRefundOpen(eventId: number): ReadOnlyCall<boolean>
+{
+    return new ReadOnlyCall('is-change-refund-open', [clarity.uint(eventId)], decodeBool);
+}
+
+export function getRefundPercent(ticketId: number): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('get-refund-percent', [clarity.uint(ticketId)], decodeUint);
+}
+
+export function getEventCancellation(eventId: number): ReadOnlyCall<EventCancellation | null>
+{
+    return new ReadOnlyCall('get-event-cancellation', [clarity.uint(eventId)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                cancelledBy: decodePrincipal(tuple['cancelled-by']),
+                cancelledAt: decodeUint(tuple['cancelled-at']),
+                unclaimedRefunds: decodeUint(tuple['unclaimed-refunds'])
+            };
+        })
+    );
+}
+
+export function getUnclaimedRefunds(eventId: number): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('get-unclaimed-refunds', [clarity.uint(eventId)], decodeUint);
+}
+
+export function getWaitlist(eventId: number): ReadOnlyCall<Waitlist>
+{
+    return new ReadOnlyCall('get-waitlist', [clarity.uint(eventId)], (result) => {
+        const tuple = decodeTuple(result);
+        return {
+            head: decodeOptional(tuple['head'], decodeUint),
+            tail: decodeOptional(tuple['tail'], decodeUint),
+            length: decodeUint(tuple['length']),
+            nextPosition: decodeUint(tuple['next-position'])
+        };
+    });
+}
+
+export function getWaitlistEntry(eventId: number, position: number): ReadOnlyCall<WaitlistEntry | null>
+{
+    return new ReadOnlyCall('get-waitlist-entry', [clarity.uint(eventId), clarity.uint(position)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                buyer: decodePrincipal(tuple['buyer']),
+                amount: decodeUint(tuple['amount']),
+                joinedAt: decodeUint(tuple['joined-at']),
+                prev: decodeOptional(tuple['prev'], decodeUint),
+                next: decodeOptional(tuple['next'], decodeUint)
+            };
+        })
+    );
+}
+
+export function getWaitlistPosition(eventId: number, buyer: string): ReadOnlyCall<number | null>
+{
+    return new ReadOnlyCall('get-waitlist-position', [clarity.uint(eventId), clarity.principal(buyer)], (result) => decodeOptional(result, decodeUint));
+}
+
+export function getWaitlistRefund(eventId: number, buyer: string): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('get-waitlist-refund', [clarity.uint(eventId), clarity.principal(buyer)], decodeUint);
+}
+
+export function isTransferAllowed(eventId: number): ReadOnlyCall<boolean>
+{
+    return new ReadOnlyCall('is-transfer-allowed', [clarity.uint(eventId)], decodeBool);
+}
+
+export function getResalePolicy(eventId: number): ReadOnlyCall<ResalePolicy>
+{
+    return new ReadOnlyCall('get-resale-policy', [clarity.uint(eventId)], (result) => {
+        const tuple = decodeTuple(result);
+        return {
+            maxMarkupPercent: decodeUint(tuple['max-markup-percent']),
+            royaltyPercent: decodeUint(tuple['royalty-percent'])
+        };
+    });
+}
+
+export function getResaleListing(ticketId: number): ReadOnlyCall<ResaleListing | null>
+{
+    return new ReadOnlyCall('get-resale-listing', [clarity.uint(ticketId)], (result) =>
+        decodeOptional(result, (value) => {
+            const tuple = decodeTuple(value);
+            return {
+                seller: decodePrincipal(tuple['seller']),
+                price: decodeUint(tuple['price']),
+                listedAt: decodeUint(tuple['listed-at'])
+            };
+        })
+    );
+}
+
+export function getMaxResalePrice(ticketId: number): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('get-max-resale-price', [clarity.uint(ticketId)], decodeUint);
+}
+
+export function calculatePlatformFee(amount: number): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('calculate-platform-fee', [clarity.uint(amount)], decodeUint);
+}
+
+export function getPlatformFeesAccrued(paymentToken?: string): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('get-platform-fees-accrued', [optionalPrincipal(paymentToken)], decodeUint);
+}
+
+export function getPlatformFeesWithdrawn(paymentToken?: string): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('get-platform-fees-withdrawn', [optionalPrincipal(paymentToken)], decodeUint);
+}
+
+export function isPaymentTokenAllowed(token: string): ReadOnlyCall<boolean>
+{
+    return new ReadOnlyCall('is-payment-token-allowed', [clarity.principal(token)], decodeBool);
+}
+
+// SIP-009
+export function getLastTokenId(): ReadOnlyCall<number>
+{
+    return new ReadOnlyCall('get-last-token-id', [], (result) => decodeOk(result, decodeUint));
+}
+
+export function getTokenUri(tokenId: number): ReadOnlyCall<string | null>
+{
+    return new ReadOnlyCall('get-token-uri', [clarity.uint(tokenId)], (result) => decodeOk(result, (uri) => decodeOptional(uri, decodeAscii)));
+}
+
+export function getOwner(tokenId: number): ReadOnlyCall<string | null>
+{
+    return new ReadOnlyCall('get-owner', [clarity.uint(tokenId)], (result) => decodeOk(result, (owner) => decodeOptional(owner, decodePrincipal)));
+}
+
+// Encoding Helpers
+function optionalUint(value?: number): string
+{
+    return value === undefined ? clarity.none() : clarity.some(clarity.uint(value));
+}
+
+function optionalUtf8(value?: string): string
+{
+    return value === undefined ? clarity.none() : clarity.some(clarity.utf8(value));
+}
+
+function optionalPrincipal(value?: string): string
+{
+    return value === undefined ? clarity.none() : clarity.some(clarity.principal(value));
+}
+
+function encodePromoCode(code: string): Uint8Array
+{
+    const bytes = new TextEncoder().encode(code);
+    if (bytes.length > 32) {
+        throw new Error(`Promo code ${code} is longer than 32 bytes`);
+    }
+    return bytes;
+}
+
+function encodeProof(proof: Uint8Array[]): string
+{
+    return clarity.list(proof.map((node) => clarity.buff(node)));
+}
+
+function encodeRevenueSplit(payees: RevenueShare[]): string
+{
+    return clarity.list(payees.map((entry) => clarity.tuple({
+        'payee': clarity.principal(entry.payee),
+        'share': clarity.uint(entry.share)
+    })));
+}
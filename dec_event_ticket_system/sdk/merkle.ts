@@ -0,0 +1,130 @@
+// Merkle trees over principals for presale allowlists, built the way the
+// contract's is-presale-eligible checks them: a leaf is the sha256 of the
+// principal's consensus serialization and each parent is the sha256 of its two
+// children, smaller first. An odd node out is carried up to the next layer as is.
+
+import { sha256 } from 'https://esm.sh/@noble/hashes@1.1.5/sha256';
+
+// Longest proof presale-purchase accepts, enough for 65536 principals
+export const MAX_PROOF_LENGTH = 16;
+
+const C32_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+export interface MerkleTree {
+    root: Uint8Array;
+    // Leaves first, root last
+    layers: Uint8Array[][];
+    principals: string[];
+}
+
+export function buildMerkleTree(principals: string[]): MerkleTree
+{
+    if (principals.length === 0) {
+        throw new Error('A Merkle tree needs at least one principal');
+    }
+    if (principals.length > 2 ** MAX_PROOF_LENGTH) {
+        throw new Error(`At most ${2 ** MAX_PROOF_LENGTH} principals fit in a presale tree`);
+    }
+
+    const layers = [principals.map(principalLeaf)];
+    while (layers[layers.length - 1].length > 1) {
+        const layer = layers[layers.length - 1];
+        const parents: Uint8Array[] = [];
+        for (let i = 0; i < layer.length; i += 2) {
+            parents.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+        }
+        layers.push(parents);
+    }
+
+    return { root: layers[layers.length - 1][0], layers, principals };
+}
+
+// Sibling hashes from the principal's leaf up to the root
+export function getMerkleProof(tree: MerkleTree, principal: string): Uint8Array[]
+{
+    let index = tree.principals.indexOf(principal);
+    if (index < 0) {
+        throw new Error(`${principal} is not in the tree`);
+    }
+
+    const proof: Uint8Array[] = [];
+    for (const layer of tree.layers.slice(0, -1)) {
+        const sibling = index ^ 1;
+        if (sibling < layer.length) {
+            proof.push(layer[sibling]);
+        }
+        index >>= 1;
+    }
+    return proof;
+}
+
+export function principalLeaf(principal: string): Uint8Array
+{
+    return sha256(serializePrincipal(principal));
+}
+
+// Clarity consensus serialization of a standard or contract principal, as
+// produced by to-consensus-buff?
+export function serializePrincipal(principal: string): Uint8Array
+{
+    const [address, contractName] = principal.split('.');
+    const { version, hash160 } = decodeAddress(address);
+
+    if (contractName === undefined) {
+        return new Uint8Array([0x05, version, ...hash160]);
+    }
+    const name = new TextEncoder().encode(contractName);
+    return new Uint8Array([0x06, version, ...hash160, name.length, ...name]);
+}
+
+export function toHex(bytes: Uint8Array): string
+{
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function hashPair(a: Uint8Array, b: Uint8Array): Uint8Array
+{
+    return compareBytes(a, b) < 0 ? sha256(new Uint8Array([...a, ...b])) : sha256(new Uint8Array([...b, ...a]));
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number
+{
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        if (a[i] !== b[i]) {
+            return a[i] - b[i];
+        }
+    }
+    return a.length - b.length;
+}
+
+// Splits a c32check Stacks address into its version and hash160, checking the
+// checksum
+function decodeAddress(address: string): { version: number; hash160: Uint8Array }
+{
+    const version = C32_ALPHABET.indexOf(address[1]);
+    if (address[0] !== 'S' || version < 0) {
+        throw new Error(`Invalid Stacks address ${address}`);
+    }
+
+    // The rest is the hash160 followed by a 4-byte checksum, base-32 encoded
+    let value = 0n;
+    for (const char of address.slice(2)) {
+        const digit = C32_ALPHABET.indexOf(char);
+        if (digit < 0) {
+            throw new Error(`Invalid Stacks address ${address}`);
+        }
+        value = value * 32n + BigInt(digit);
+    }
+    const payload = new Uint8Array(24);
+    for (let i = payload.length - 1; i >= 0; i--) {
+        payload[i] = Number(value & 0xffn);
+        value >>= 8n;
+    }
+
+    const hash160 = payload.slice(0, 20);
+    const checksum = sha256(sha256(new Uint8Array([version, ...hash160]))).slice(0, 4);
+    if (value !== 0n || toHex(checksum) !== toHex(payload.slice(20))) {
+        throw new Error(`Invalid checksum in Stacks address ${address}`);
+    }
+    return { version, hash160 };
+}
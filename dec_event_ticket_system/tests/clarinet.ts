@@ -0,0 +1,25 @@
+// Runs the SDK's calls on Clarinet's test chain: a public call becomes a
+// transaction with .by(sender) and a read-only call is evaluated and decoded by
+// callReadOnly.
+
+import { Tx, Chain } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { CONTRACT_NAME, ContractCall, ReadOnlyCall } from '../sdk/event_ticket_system.ts';
+
+// Any principal will do as the caller of a read-only function; this is the Devnet deployer
+const READ_ONLY_SENDER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+
+declare module '../sdk/event_ticket_system.ts' {
+    interface ContractCall {
+        by(sender: string): Tx;
+    }
+}
+
+ContractCall.prototype.by = function (this: ContractCall, sender: string): Tx
+{
+    return Tx.contractCall(CONTRACT_NAME, this.functionName, this.args, sender);
+};
+
+export function callReadOnly<T>(chain: Chain, call: ReadOnlyCall<T>): T
+{
+    return call.decode(chain.callReadOnlyFn(CONTRACT_NAME, call.functionName, call.args, READ_ONLY_SENDER).result);
+}
@@ -1,7 +1,112 @@
 import { Clarinet, Tx, Chain, Account, types } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
 import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import * as secp from 'https://esm.sh/@noble/secp256k1@1.7.1';
+import {
+    BASIS_POINTS,
+    CONTRACT_NAME,
+    DEFAULT_TIER_ID,
+    ContractError,
+    DiscountType,
+    EventStatus,
+    PricingMode,
+    TransferPolicy,
+    decodeError,
+    hashPromoCode,
+    addEventScanner,
+    addPromoCode,
+    addSeatRow,
+    addSeatSection,
+    addTicketTier,
+    buyResaleTicket,
+    cancelEvent,
+    cancelResaleListing,
+    claimCancellationRefund,
+    claimWaitlistRefund,
+    clearPricingCurve,
+    collectPlatformFees,
+    createEvent,
+    joinWaitlist,
+    leaveWaitlist,
+    listTicketForResale,
+    presalePurchase,
+    purchaseSeat,
+    purchaseTicket,
+    purchaseTickets,
+    refundTicket,
+    releaseWaitlist,
+    removeEventScanner,
+    setEventBaseUri,
+    setEventSchedule,
+    setLinearPricing,
+    setPaymentTokenAllowed,
+    setPresale,
+    setRefundSchedule,
+    setResalePolicy,
+    setRevenueSplit,
+    setSignedCheckIn,
+    setTimeDecayPricing,
+    setWalletLimit,
+    transfer,
+    transferTicket,
+    updateEvent,
+    updateMinTicketPrice,
+    updatePlatformFee,
+    validateTicket,
+    validateTicketSigned,
+    withdrawPlatformFees,
+    withdrawProceeds,
+    withdrawRevenue,
+    calculatePlatformFee,
+    getChangeRefundWindow,
+    getCheckInChallenge,
+    getCollectableFees,
+    getCurrentPrice,
+    getEvent,
+    getEventCancellation,
+    getEventCheckInsPage,
+    getEventEscrow,
+    getEventStatus,
+    getEventTicketCount,
+    getEventTicketsPage,
+    getLastTokenId,
+    getMaxResalePrice,
+    getOrganizerRevenue,
+    getOwner,
+    getPayeeStatement,
+    getPlatformFeesAccrued,
+    getPlatformFeesWithdrawn,
+    getPresale,
+    getPresalePurchases,
+    getPricingCurve,
+    getPromoCodeReport,
+    getRefundPercent,
+    getRefundSchedule,
+    getResaleListing,
+    getRevenueSplit,
+    getSeatAssignment,
+    getSectionAvailability,
+    getTicket,
+    getTicketCheckIn,
+    getTicketNonce,
+    getTicketTier,
+    getTokenUri,
+    getUnclaimedRefunds,
+    getUserTicketCount,
+    getUserTicketsPage,
+    getWaitlist,
+    getWaitlistEntry,
+    getWaitlistPosition,
+    getWaitlistRefund,
+    getWalletPurchases,
+    getWithdrawableBalance,
+    isEscrowCovered,
+    isEventScanner,
+    isPresaleEligible,
+    isPresaleOpen,
+} from '../sdk/event_ticket_system.ts';
+import { buildMerkleTree, getMerkleProof, toHex } from '../sdk/merkle.ts';
+import { callReadOnly } from './clarinet.ts';
 
-const CONTRACT_NAME = 'event-ticketing';
 const EVENT_NAME = 'Test Concert';
 const EVENT_DESCRIPTION = 'A test concert for the smart contract';
 const EVENT_VENUE = 'Test Venue';
@@ -9,6 +114,28 @@ const EVENT_CATEGORY = 'Music';
 const TOTAL_TICKETS = 100;
 const TICKET_PRICE = 50000000; // 50 STX
 const REFUND_WINDOW = 100; // 100 blocks
+const PLATFORM_FEE_PERCENT = 5; // 5%
+const PLATFORM_FEE = Math.floor((TICKET_PRICE * PLATFORM_FEE_PERCENT) / 100);
+
+// Secret keys of the Devnet accounts (settings/Devnet.toml), used to sign check-in challenges
+const DEVNET_SECRET_KEYS: { [name: string]: string } = {
+    wallet_2: '530d9f61984c888536871c6573073bdfc0058896dc1adfe9a6a10dfacadc209101',
+    wallet_3: 'd655b2523bcd65e34889725c73064feb17ceb796831c0e111ba1a552b0f31b3901',
+};
+
+// Signs the contract's check-in challenge for a ticket as the given account and
+// returns the 65-byte recoverable signature expected by validate-ticket-signed
+async function signCheckInChallenge(chain: Chain, ticketId: number, signedAt: number, signer: Account)
+{
+    // Devnet keys carry a trailing 01 byte marking a compressed public key
+    const [signature, recovery] = await secp.sign(
+        callReadOnly(chain, getCheckInChallenge(ticketId, signedAt)),
+        DEVNET_SECRET_KEYS[signer.name].slice(0, 64),
+        { recovered: true, der: false }
+    );
+
+    return new Uint8Array([...signature, recovery]);
+}
 
 Clarinet.test({
     name: "Ensure that contract owner can create an event",
@@ -18,21 +145,17 @@ Clarinet.test({
         const futureDate = chain.blockHeight + 1000;
 
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(futureDate),
-                    types.uint(TOTAL_TICKETS),
-                    types.uint(TICKET_PRICE),
-                    types.uint(REFUND_WINDOW),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         // Assert that the transaction was successful
@@ -40,27 +163,21 @@ Clarinet.test({
         assertEquals(block.receipts[0].result, '(ok true)');
 
         // Verify the event was created by querying the contract
-        const event = chain.callReadOnlyFn(
-            CONTRACT_NAME,
-            'get-event',
-            [types.uint(1)],
-            deployer.address
-        );
+        const eventData = callReadOnly(chain, getEvent(1))!;
 
         // Assert that the event data is correct
-        const eventData = event.result.expectSome().expectTuple();
-        assertEquals(eventData['name'].expectUtf8(), EVENT_NAME);
-        assertEquals(eventData['description'].expectUtf8(), EVENT_DESCRIPTION);
-        assertEquals(eventData['organizer'].expectPrincipal(), deployer.address);
-        assertEquals(eventData['venue'].expectUtf8(), EVENT_VENUE);
-        assertEquals(eventData['date'].expectUint(), futureDate);
-        assertEquals(eventData['total-tickets'].expectUint(), TOTAL_TICKETS);
-        assertEquals(eventData['tickets-sold'].expectUint(), 0);
-        assertEquals(eventData['ticket-price'].expectUint(), TICKET_PRICE);
-        assertEquals(eventData['is-active'].expectBool(), true);
-        assertEquals(eventData['refund-window'].expectUint(), REFUND_WINDOW);
-        assertEquals(eventData['revenue'].expectUint(), 0);
-        assertEquals(eventData['category'].expectUtf8(), EVENT_CATEGORY);
+        assertEquals(eventData.name, EVENT_NAME);
+        assertEquals(eventData.description, EVENT_DESCRIPTION);
+        assertEquals(eventData.organizer, deployer.address);
+        assertEquals(eventData.venue, EVENT_VENUE);
+        assertEquals(eventData.date, futureDate);
+        assertEquals(eventData.totalTickets, TOTAL_TICKETS);
+        assertEquals(eventData.ticketsSold, 0);
+        assertEquals(eventData.ticketPrice, TICKET_PRICE);
+        assertEquals(eventData.isActive, true);
+        assertEquals(eventData.refundWindow, REFUND_WINDOW);
+        assertEquals(eventData.revenue, 0);
+        assertEquals(eventData.category, EVENT_CATEGORY);
     },
 });
 
@@ -73,26 +190,22 @@ Clarinet.test({
         const invalidTicketPrice = 100; // Less than minimum ticket price
 
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(futureDate),
-                    types.uint(TOTAL_TICKETS),
-                    types.uint(invalidTicketPrice),
-                    types.uint(REFUND_WINDOW),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: invalidTicketPrice,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         // Assert that the transaction failed with ERR-INVALID-PRICE
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, `(err u${5})`); // ERR-INVALID-PRICE
+        assertEquals(decodeError(block.receipts[0].result), ContractError.InvalidPrice);
     },
 });
 
@@ -101,29 +214,28 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>)
     {
         const deployer = accounts.get('deployer')!;
-        const pastDate = chain.blockHeight - 100; // A date in the past
+
+        // Move far enough along the chain for a date in the past to exist
+        chain.mineEmptyBlock(100);
+        const pastDate = chain.blockHeight - 50;
 
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(pastDate),
-                    types.uint(TOTAL_TICKETS),
-                    types.uint(TICKET_PRICE),
-                    types.uint(REFUND_WINDOW),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: pastDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         // Assert that the transaction failed with ERR-EVENT-EXPIRED
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, `(err u${6})`); // ERR-EVENT-EXPIRED
+        assertEquals(decodeError(block.receipts[0].result), ContractError.EventExpired);
     },
 });
 
@@ -137,33 +249,24 @@ Clarinet.test({
 
         // First, create an event
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(futureDate),
-                    types.uint(TOTAL_TICKETS),
-                    types.uint(TICKET_PRICE),
-                    types.uint(REFUND_WINDOW),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         assertEquals(block.receipts[0].result, '(ok true)');
 
         // Now purchase a ticket
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'purchase-ticket',
-                [types.uint(1)], // event ID 1
-                user1.address
-            )
+            purchaseTicket(1).by(user1.address)
         ]);
 
         // Assert that the purchase was successful
@@ -171,44 +274,24 @@ Clarinet.test({
         assertEquals(block.receipts[0].result, '(ok true)');
 
         // Verify the ticket was created
-        const ticket = chain.callReadOnlyFn(
-            CONTRACT_NAME,
-            'get-ticket',
-            [types.uint(1)], // ticket ID 1
-            user1.address
-        );
-
-        const ticketData = ticket.result.expectSome().expectTuple();
-        assertEquals(ticketData['event-id'].expectUint(), 1);
-        assertEquals(ticketData['owner'].expectPrincipal(), user1.address);
-        assertEquals(ticketData['purchase-price'].expectUint(), TICKET_PRICE);
-        assertEquals(ticketData['is-used'].expectBool(), false);
-        assertEquals(ticketData['is-refunded'].expectBool(), false);
+        const ticketData = callReadOnly(chain, getTicket(1))!;
+        assertEquals(ticketData.eventId, 1);
+        assertEquals(ticketData.owner, user1.address);
+        assertEquals(ticketData.purchasePrice, TICKET_PRICE);
+        assertEquals(ticketData.isUsed, false);
+        assertEquals(ticketData.isRefunded, false);
 
         // Verify the event was updated
-        const event = chain.callReadOnlyFn(
-            CONTRACT_NAME,
-            'get-event',
-            [types.uint(1)],
-            deployer.address
-        );
-
-        const eventData = event.result.expectSome().expectTuple();
-        assertEquals(eventData['tickets-sold'].expectUint(), 1);
-        assertEquals(eventData['revenue'].expectUint(), TICKET_PRICE);
+        const eventData = callReadOnly(chain, getEvent(1))!;
+        assertEquals(eventData.ticketsSold, 1);
+        assertEquals(eventData.revenue, TICKET_PRICE);
 
         // Verify the user tickets were updated
-        const userTickets = chain.callReadOnlyFn(
-            CONTRACT_NAME,
-            'get-user-tickets',
-            [types.principal(user1.address)],
-            user1.address
-        );
+        const userTickets = callReadOnly(chain, getUserTicketsPage(user1.address, 0, 50));
 
-        const userTicketsData = userTickets.result.expectSome().expectTuple();
-        const ownedTickets = userTicketsData['owned-tickets'].expectList();
+        const ownedTickets = userTickets;
         assertEquals(ownedTickets.length, 1);
-        assertEquals(ownedTickets[0].expectUint(), 1);
+        assertEquals(ownedTickets[0], 1);
     },
 });
 
@@ -224,48 +307,34 @@ Clarinet.test({
 
         // Create an event with only 1 ticket
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(futureDate),
-                    types.uint(totalTickets),
-                    types.uint(TICKET_PRICE),
-                    types.uint(REFUND_WINDOW),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: totalTickets,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         // First user buys the only ticket
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'purchase-ticket',
-                [types.uint(1)], // event ID 1
-                user1.address
-            )
+            purchaseTicket(1).by(user1.address)
         ]);
 
         assertEquals(block.receipts[0].result, '(ok true)');
 
         // Second user tries to buy a ticket, should fail
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'purchase-ticket',
-                [types.uint(1)], // event ID 1
-                user2.address
-            )
+            purchaseTicket(1).by(user2.address)
         ]);
 
         // Assert that the purchase failed with ERR-SOLD-OUT
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, `(err u${3})`); // ERR-SOLD-OUT
+        assertEquals(decodeError(block.receipts[0].result), ContractError.SoldOut);
     },
 });
 
@@ -279,41 +348,30 @@ Clarinet.test({
 
         // Create an event
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(futureDate),
-                    types.uint(TOTAL_TICKETS),
-                    types.uint(TICKET_PRICE),
-                    types.uint(REFUND_WINDOW),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         // User purchases a ticket
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'purchase-ticket',
-                [types.uint(1)], // event ID 1
-                user1.address
-            )
+            purchaseTicket(1).by(user1.address)
         ]);
 
+        // Check-in opens on the event date
+        chain.mineEmptyBlockUntil(futureDate);
+
         // Organizer validates the ticket
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'validate-ticket',
-                [types.uint(1)], // ticket ID 1
-                deployer.address
-            )
+            validateTicket(1).by(deployer.address)
         ]);
 
         // Assert that the validation was successful
@@ -321,15 +379,8 @@ Clarinet.test({
         assertEquals(block.receipts[0].result, '(ok true)');
 
         // Verify the ticket was marked as used
-        const ticket = chain.callReadOnlyFn(
-            CONTRACT_NAME,
-            'get-ticket',
-            [types.uint(1)],
-            deployer.address
-        );
-
-        const ticketData = ticket.result.expectSome().expectTuple();
-        assertEquals(ticketData['is-used'].expectBool(), true);
+        const ticketData = callReadOnly(chain, getTicket(1))!;
+        assertEquals(ticketData.isUsed, true);
     },
 });
 
@@ -344,46 +395,32 @@ Clarinet.test({
 
         // Create an event
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(futureDate),
-                    types.uint(TOTAL_TICKETS),
-                    types.uint(TICKET_PRICE),
-                    types.uint(REFUND_WINDOW),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         // User purchases a ticket
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'purchase-ticket',
-                [types.uint(1)], // event ID 1
-                user1.address
-            )
+            purchaseTicket(1).by(user1.address)
         ]);
 
         // Non-organizer tries to validate the ticket
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'validate-ticket',
-                [types.uint(1)], // ticket ID 1
-                user2.address
-            )
+            validateTicket(1).by(user2.address)
         ]);
 
         // Assert that the validation failed with ERR-NOT-AUTHORIZED
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, `(err u${1})`); // ERR-NOT-AUTHORIZED
+        assertEquals(decodeError(block.receipts[0].result), ContractError.NotAuthorized);
     },
 });
 
@@ -398,41 +435,27 @@ Clarinet.test({
 
         // Create an event
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(futureDate),
-                    types.uint(TOTAL_TICKETS),
-                    types.uint(TICKET_PRICE),
-                    types.uint(refundWindow),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: refundWindow,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         // User purchases a ticket
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'purchase-ticket',
-                [types.uint(1)], // event ID 1
-                user1.address
-            )
+            purchaseTicket(1).by(user1.address)
         ]);
 
         // User requests a refund
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'refund-ticket',
-                [types.uint(1)], // ticket ID 1
-                user1.address
-            )
+            refundTicket(1).by(user1.address)
         ]);
 
         // Assert that the refund was successful
@@ -440,26 +463,12 @@ Clarinet.test({
         assertEquals(block.receipts[0].result, '(ok true)');
 
         // Verify the ticket was marked as refunded
-        const ticket = chain.callReadOnlyFn(
-            CONTRACT_NAME,
-            'get-ticket',
-            [types.uint(1)],
-            user1.address
-        );
-
-        const ticketData = ticket.result.expectSome().expectTuple();
-        assertEquals(ticketData['is-refunded'].expectBool(), true);
+        const ticketData = callReadOnly(chain, getTicket(1))!;
+        assertEquals(ticketData.isRefunded, true);
 
         // Verify the event revenue was updated
-        const event = chain.callReadOnlyFn(
-            CONTRACT_NAME,
-            'get-event',
-            [types.uint(1)],
-            deployer.address
-        );
-
-        const eventData = event.result.expectSome().expectTuple();
-        assertEquals(eventData['revenue'].expectUint(), 0); // Revenue should be back to 0
+        const eventData = callReadOnly(chain, getEvent(1))!;
+        assertEquals(eventData.revenue, 0); // Revenue should be back to 0
     },
 });
 
@@ -474,31 +483,22 @@ Clarinet.test({
 
         // Create an event
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(futureDate),
-                    types.uint(TOTAL_TICKETS),
-                    types.uint(TICKET_PRICE),
-                    types.uint(refundWindow),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: refundWindow,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         // User purchases a ticket
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'purchase-ticket',
-                [types.uint(1)], // event ID 1
-                user1.address
-            )
+            purchaseTicket(1).by(user1.address)
         ]);
 
         // Mine several blocks to go beyond the refund window
@@ -509,17 +509,12 @@ Clarinet.test({
 
         // User tries to request a refund after the window
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'refund-ticket',
-                [types.uint(1)], // ticket ID 1
-                user1.address
-            )
+            refundTicket(1).by(user1.address)
         ]);
 
         // Assert that the refund failed with ERR-REFUND-WINDOW-CLOSED
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, `(err u${11})`); // ERR-REFUND-WINDOW-CLOSED
+        assertEquals(decodeError(block.receipts[0].result), ContractError.RefundWindowClosed);
     },
 });
 
@@ -534,46 +529,32 @@ Clarinet.test({
 
         // Create an event
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(futureDate),
-                    types.uint(TOTAL_TICKETS),
-                    types.uint(TICKET_PRICE),
-                    types.uint(REFUND_WINDOW),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         // User1 purchases a ticket
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'purchase-ticket',
-                [types.uint(1)], // event ID 1
-                user1.address
-            )
+            purchaseTicket(1).by(user1.address)
         ]);
 
         // User2 tries to request a refund for User1's ticket
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'refund-ticket',
-                [types.uint(1)], // ticket ID 1
-                user2.address
-            )
+            refundTicket(1).by(user2.address)
         ]);
 
         // Assert that the refund failed with ERR-NOT-AUTHORIZED
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, `(err u${1})`); // ERR-NOT-AUTHORIZED
+        assertEquals(decodeError(block.receipts[0].result), ContractError.NotAuthorized);
     },
 });
 
@@ -585,12 +566,7 @@ Clarinet.test({
         const newFee = 10; // 10%
 
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'update-platform-fee',
-                [types.uint(newFee)],
-                deployer.address
-            )
+            updatePlatformFee(newFee).by(deployer.address)
         ]);
 
         // Assert that the update was successful
@@ -601,14 +577,9 @@ Clarinet.test({
         const testAmount = 1000000;
         const expectedFee = Math.floor((testAmount * newFee) / 100);
 
-        const feeCalculation = chain.callReadOnlyFn(
-            CONTRACT_NAME,
-            'calculate-platform-fee',
-            [types.uint(testAmount)],
-            deployer.address
-        );
+        const feeCalculation = callReadOnly(chain, calculatePlatformFee(testAmount));
 
-        assertEquals(feeCalculation.result.expectUint(), expectedFee);
+        assertEquals(feeCalculation, expectedFee);
     },
 });
 
@@ -620,17 +591,12 @@ Clarinet.test({
         const newFee = 10; // 10%
 
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'update-platform-fee',
-                [types.uint(newFee)],
-                user1.address
-            )
+            updatePlatformFee(newFee).by(user1.address)
         ]);
 
         // Assert that the update failed with ERR-NOT-AUTHORIZED
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, `(err u${1})`); // ERR-NOT-AUTHORIZED
+        assertEquals(decodeError(block.receipts[0].result), ContractError.NotAuthorized);
     },
 });
 
@@ -642,12 +608,7 @@ Clarinet.test({
         const newMinPrice = 2000000; // 2 STX
 
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'update-min-ticket-price',
-                [types.uint(newMinPrice)],
-                deployer.address
-            )
+            updateMinTicketPrice(newMinPrice).by(deployer.address)
         ]);
 
         // Assert that the update was successful
@@ -659,46 +620,38 @@ Clarinet.test({
         const invalidPrice = newMinPrice - 1;
 
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(futureDate),
-                    types.uint(TOTAL_TICKETS),
-                    types.uint(invalidPrice),
-                    types.uint(REFUND_WINDOW),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: invalidPrice,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         // Assert that the event creation failed with ERR-INVALID-PRICE
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, `(err u${5})`); // ERR-INVALID-PRICE
+        assertEquals(decodeError(block.receipts[0].result), ContractError.InvalidPrice);
 
         // Now try with a valid price
         const validPrice = newMinPrice;
 
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(futureDate),
-                    types.uint(TOTAL_TICKETS),
-                    types.uint(validPrice),
-                    types.uint(REFUND_WINDOW),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: validPrice,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         // Assert that the event creation was successful
@@ -717,58 +670,42 @@ Clarinet.test({
 
         // Create an event
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(futureDate),
-                    types.uint(TOTAL_TICKETS),
-                    types.uint(TICKET_PRICE),
-                    types.uint(REFUND_WINDOW),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         // User purchases a ticket
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'purchase-ticket',
-                [types.uint(1)], // event ID 1
-                user1.address
-            )
+            purchaseTicket(1).by(user1.address)
         ]);
 
+        // Check-in opens on the event date
+        chain.mineEmptyBlockUntil(futureDate);
+
         // Organizer validates the ticket
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'validate-ticket',
-                [types.uint(1)], // ticket ID 1
-                deployer.address
-            )
+            validateTicket(1).by(deployer.address)
         ]);
 
         assertEquals(block.receipts[0].result, '(ok true)');
 
         // Organizer tries to validate the ticket again
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'validate-ticket',
-                [types.uint(1)], // ticket ID 1
-                deployer.address
-            )
+            validateTicket(1).by(deployer.address)
         ]);
 
         // Assert that the validation failed with ERR-TICKET-USED
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, `(err u${10})`); // ERR-TICKET-USED
+        assertEquals(decodeError(block.receipts[0].result), ContractError.TicketUsed);
     },
 });
 
@@ -782,56 +719,40 @@ Clarinet.test({
 
         // Create an event
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(futureDate),
-                    types.uint(TOTAL_TICKETS),
-                    types.uint(TICKET_PRICE),
-                    types.uint(REFUND_WINDOW),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         // User purchases a ticket
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'purchase-ticket',
-                [types.uint(1)], // event ID 1
-                user1.address
-            )
+            purchaseTicket(1).by(user1.address)
         ]);
 
+        // Check-in opens on the event date
+        chain.mineEmptyBlockUntil(futureDate);
+
         // Organizer validates the ticket
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'validate-ticket',
-                [types.uint(1)], // ticket ID 1
-                deployer.address
-            )
+            validateTicket(1).by(deployer.address)
         ]);
 
         // User tries to refund the used ticket
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'refund-ticket',
-                [types.uint(1)], // ticket ID 1
-                user1.address
-            )
+            refundTicket(1).by(user1.address)
         ]);
 
         // Assert that the refund failed with ERR-TICKET-USED
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, `(err u${10})`); // ERR-TICKET-USED
+        assertEquals(decodeError(block.receipts[0].result), ContractError.TicketUsed);
     },
 });
 
@@ -845,58 +766,39 @@ Clarinet.test({
 
         // Create an event
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(futureDate),
-                    types.uint(TOTAL_TICKETS),
-                    types.uint(TICKET_PRICE),
-                    types.uint(REFUND_WINDOW),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         // User purchases a ticket
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'purchase-ticket',
-                [types.uint(1)], // event ID 1
-                user1.address
-            )
+            purchaseTicket(1).by(user1.address)
         ]);
 
         // User requests a refund
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'refund-ticket',
-                [types.uint(1)], // ticket ID 1
-                user1.address
-            )
+            refundTicket(1).by(user1.address)
         ]);
 
         assertEquals(block.receipts[0].result, '(ok true)');
 
         // User tries to refund the ticket again
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'refund-ticket',
-                [types.uint(1)], // ticket ID 1
-                user1.address
-            )
+            refundTicket(1).by(user1.address)
         ]);
 
         // Assert that the refund failed with ERR-TICKET-USED
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, `(err u${10})`); // ERR-TICKET-USED
+        assertEquals(decodeError(block.receipts[0].result), ContractError.TicketUsed);
     },
 });
 
@@ -908,17 +810,12 @@ Clarinet.test({
         const nonExistentEventId = 999;
 
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'purchase-ticket',
-                [types.uint(nonExistentEventId)],
-                user1.address
-            )
+            purchaseTicket(nonExistentEventId).by(user1.address)
         ]);
 
         // Assert that the purchase failed with ERR-EVENT-NOT-FOUND
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, `(err u${2})`); // ERR-EVENT-NOT-FOUND
+        assertEquals(decodeError(block.receipts[0].result), ContractError.EventNotFound);
     },
 });
 
@@ -934,43 +831,24 @@ Clarinet.test({
 
         // Create an event
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(futureDate),
-                    types.uint(TOTAL_TICKETS),
-                    types.uint(TICKET_PRICE),
-                    types.uint(REFUND_WINDOW),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         // Multiple users purchase tickets
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'purchase-ticket',
-                [types.uint(1)], // event ID 1
-                user1.address
-            ),
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'purchase-ticket',
-                [types.uint(1)], // event ID 1
-                user2.address
-            ),
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'purchase-ticket',
-                [types.uint(1)], // event ID 1
-                user3.address
-            )
+            purchaseTicket(1).by(user1.address),
+            purchaseTicket(1).by(user2.address),
+            purchaseTicket(1).by(user3.address)
         ]);
 
         // Assert that all purchases were successful
@@ -980,16 +858,9 @@ Clarinet.test({
         assertEquals(block.receipts[2].result, '(ok true)');
 
         // Verify the event data was updated correctly
-        const event = chain.callReadOnlyFn(
-            CONTRACT_NAME,
-            'get-event',
-            [types.uint(1)],
-            deployer.address
-        );
-
-        const eventData = event.result.expectSome().expectTuple();
-        assertEquals(eventData['tickets-sold'].expectUint(), 3);
-        assertEquals(eventData['revenue'].expectUint(), TICKET_PRICE * 3);
+        const eventData = callReadOnly(chain, getEvent(1))!;
+        assertEquals(eventData.ticketsSold, 3);
+        assertEquals(eventData.revenue, TICKET_PRICE * 3);
     },
 });
 
@@ -1002,76 +873,4293 @@ Clarinet.test({
 
         // Create first event
         let block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8(EVENT_NAME),
-                    types.utf8(EVENT_DESCRIPTION),
-                    types.utf8(EVENT_VENUE),
-                    types.uint(futureDate),
-                    types.uint(TOTAL_TICKETS),
-                    types.uint(TICKET_PRICE),
-                    types.uint(REFUND_WINDOW),
-                    types.utf8(EVENT_CATEGORY)
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         assertEquals(block.receipts[0].result, '(ok true)');
 
         // Create second event
         block = chain.mineBlock([
-            Tx.contractCall(
-                CONTRACT_NAME,
-                'create-event',
-                [
-                    types.utf8("Second Event"),
-                    types.utf8("Description for second event"),
-                    types.utf8("Second Venue"),
-                    types.uint(futureDate + 100),
-                    types.uint(TOTAL_TICKETS * 2),
-                    types.uint(TICKET_PRICE * 2),
-                    types.uint(REFUND_WINDOW),
-                    types.utf8("Workshop")
-                ],
-                deployer.address
-            )
+            createEvent({
+                name: "Second Event",
+                description: "Description for second event",
+                venue: "Second Venue",
+                date: futureDate + 100,
+                totalTickets: TOTAL_TICKETS * 2,
+                ticketPrice: TICKET_PRICE * 2,
+                refundWindow: REFUND_WINDOW,
+                category: "Workshop",
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
         ]);
 
         assertEquals(block.receipts[0].result, '(ok true)');
 
         // Verify both events exist and have correct data
-        const event1 = chain.callReadOnlyFn(
-            CONTRACT_NAME,
-            'get-event',
-            [types.uint(1)],
-            deployer.address
-        );
+        const event1Data = callReadOnly(chain, getEvent(1))!;
+        const event2Data = callReadOnly(chain, getEvent(2))!;
 
-        const event2 = chain.callReadOnlyFn(
-            CONTRACT_NAME,
-            'get-event',
-            [types.uint(2)],
-            deployer.address
-        );
+        assertEquals(event1Data.name, EVENT_NAME);
+        assertEquals(event2Data.name, "Second Event");
+
+        // Check organizer data
+        const organizerInfo = callReadOnly(chain, getOrganizerRevenue(deployer.address))!;
+        assertEquals(organizerInfo.eventsOrganized, 2);
+    },
+});
+Clarinet.test({
+    name: "Ensure ticket payments are held in the contract escrow",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 1000;
 
-        const event1Data = event1.result.expectSome().expectTuple();
-        const event2Data = event2.result.expectSome().expectTuple();
+        // Create an event
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
+        ]);
 
-        assertEquals(event1Data['name'].expectUtf8(), EVENT_NAME);
-        assertEquals(event2Data['name'].expectUtf8(), "Second Event");
+        const balancesBefore = chain.getAssetsMaps().assets['STX'];
 
-        // Check organizer data
-        const organizerData = chain.callReadOnlyFn(
-            CONTRACT_NAME,
-            'get-organizer-revenue',
-            [types.principal(deployer.address)],
-            deployer.address
-        );
+        // User purchases a ticket
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user1.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        // Verify the payment went to the contract rather than the organizer
+        const balancesAfter = chain.getAssetsMaps().assets['STX'];
+        assertEquals(balancesAfter[user1.address], balancesBefore[user1.address] - TICKET_PRICE);
+        assertEquals(balancesAfter[contractPrincipal], TICKET_PRICE);
+        assertEquals(balancesAfter[deployer.address], balancesBefore[deployer.address]);
+
+        // Verify the escrow balance was updated
+        const escrowData = callReadOnly(chain, getEventEscrow(1))!;
+        assertEquals(escrowData.balance, TICKET_PRICE - PLATFORM_FEE);
+        assertEquals(escrowData.platformFees, PLATFORM_FEE);
+        assertEquals(escrowData.withdrawn, 0);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure refunds are paid out of the event escrow",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 1000;
+
+        // Create an event
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
+        ]);
+
+        const balancesBefore = chain.getAssetsMaps().assets['STX'];
+
+        // User purchases a ticket and then requests a refund
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user1.address)
+        ]);
+
+        block = chain.mineBlock([
+            refundTicket(1).by(user1.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        block.receipts[0].events.expectSTXTransferEvent(TICKET_PRICE, contractPrincipal, user1.address);
+
+        // Verify the buyer got the full price back and the escrow is empty
+        const balancesAfter = chain.getAssetsMaps().assets['STX'];
+        assertEquals(balancesAfter[user1.address], balancesBefore[user1.address]);
+        assertEquals(balancesAfter[contractPrincipal], 0);
+        assertEquals(balancesAfter[deployer.address], balancesBefore[deployer.address]);
+
+        const escrow = callReadOnly(chain, getEventEscrow(1));
+
+        assertEquals(escrow!.balance, 0);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure organizer cannot withdraw proceeds while the refund window is open",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        // Create an event
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
+        ]);
+
+        // User purchases a ticket
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user1.address)
+        ]);
+
+        // Organizer tries to withdraw straight away
+        block = chain.mineBlock([
+            withdrawProceeds(1).by(deployer.address)
+        ]);
+
+        // Assert that the withdrawal failed with ERR-FUNDS-LOCKED
+        assertEquals(block.receipts.length, 1);
+        assertEquals(decodeError(block.receipts[0].result), ContractError.FundsLocked);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure organizer can withdraw settled proceeds after the refund window",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 1000;
+        const refundWindow = 10; // 10 blocks
+
+        // Create an event
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: refundWindow,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
+        ]);
+
+        // Two users purchase tickets
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user1.address),
+            purchaseTicket(1).by(user2.address)
+        ]);
+
+        // Mine several blocks to go beyond the refund window
+        for (let i = 0; i < refundWindow + 1; i++)
+        {
+            chain.mineBlock([]);
+        }
+
+        const balancesBefore = chain.getAssetsMaps().assets['STX'];
+
+        // A non-organizer cannot draw the escrow
+        block = chain.mineBlock([
+            withdrawProceeds(1).by(user1.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.NotAuthorized);
+
+        // Organizer withdraws the settled proceeds
+        block = chain.mineBlock([
+            withdrawProceeds(1).by(deployer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        // Verify the STX moved from the contract to the organizer
+        const balancesAfter = chain.getAssetsMaps().assets['STX'];
+        assertEquals(balancesAfter[contractPrincipal], PLATFORM_FEE * 2);
+        assertEquals(balancesAfter[deployer.address], balancesBefore[deployer.address] + (TICKET_PRICE - PLATFORM_FEE) * 2);
+
+        const escrowData = callReadOnly(chain, getEventEscrow(1))!;
+        assertEquals(escrowData.balance, 0);
+        assertEquals(escrowData.withdrawn, (TICKET_PRICE - PLATFORM_FEE) * 2);
+        assertEquals(escrowData.platformFees, 0);
+
+        // Nothing is left to withdraw
+        block = chain.mineBlock([
+            withdrawProceeds(1).by(deployer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.InsufficientFunds);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure platform fee math is correct at 0%, 5% and 100%, including rounding on small prices",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+        const futureDate = chain.blockHeight + 1000;
+        const feePercents = [0, 5, 100];
+        const prices = [TICKET_PRICE, 19, 20, 39, 1];
+
+        // Allow tiny prices so the rounding behaviour is visible
+        let block = chain.mineBlock([
+            updateMinTicketPrice(1).by(deployer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        let eventId = 0;
+        for (const feePercent of feePercents)
+        {
+            block = chain.mineBlock([
+                updatePlatformFee(feePercent).by(deployer.address)
+            ]);
+
+            assertEquals(block.receipts[0].result, '(ok true)');
+
+            for (const price of prices)
+            {
+                eventId++;
+                const expectedFee = Math.floor((price * feePercent) / 100);
+
+                // Create an event at this price and buy a ticket for it
+                block = chain.mineBlock([
+                    createEvent({
+                        name: EVENT_NAME,
+                        description: EVENT_DESCRIPTION,
+                        venue: EVENT_VENUE,
+                        date: futureDate,
+                        totalTickets: TOTAL_TICKETS,
+                        ticketPrice: price,
+                        refundWindow: REFUND_WINDOW,
+                        category: EVENT_CATEGORY,
+                        transferPolicy: TransferPolicy.Allowed
+                    }).by(deployer.address),
+                    purchaseTicket(eventId).by(user1.address)
+                ]);
+
+                assertEquals(block.receipts[0].result, '(ok true)');
+                assertEquals(block.receipts[1].result, '(ok true)');
+
+                // Verify the fee recorded on the ticket
+                const ticketData = callReadOnly(chain, getTicket(eventId))!;
+                assertEquals(ticketData.purchasePrice, price);
+                assertEquals(ticketData.platformFee, expectedFee);
+
+                // Verify the escrow split
+                const escrowData = callReadOnly(chain, getEventEscrow(eventId))!;
+                assertEquals(escrowData.balance, price - expectedFee);
+                assertEquals(escrowData.platformFees, expectedFee);
+            }
+        }
+    },
+});
+
+Clarinet.test({
+    name: "Ensure refunds reverse the platform fee",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        // Create an event
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
+        ]);
 
-        const organizerInfo = organizerData.result.expectSome().expectTuple();
-        assertEquals(organizerInfo['events-organized'].expectUint(), 2);
+        // Two users purchase tickets at the default fee
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user1.address)
+        ]);
+
+        // The fee changes before the second sale
+        block = chain.mineBlock([
+            updatePlatformFee(10).by(deployer.address),
+            purchaseTicket(1).by(user2.address)
+        ]);
+
+        // The first buyer refunds: the fee charged at purchase time is reversed
+        block = chain.mineBlock([
+            refundTicket(1).by(user1.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        const secondFee = Math.floor((TICKET_PRICE * 10) / 100);
+        const escrowData = callReadOnly(chain, getEventEscrow(1))!;
+        assertEquals(escrowData.balance, TICKET_PRICE - secondFee);
+        assertEquals(escrowData.platformFees, secondFee);
+
+        // Nothing has reached the treasury yet
+        const accrued = callReadOnly(chain, getPlatformFeesAccrued());
+
+        assertEquals(accrued, 0);
     },
-});
\ No newline at end of file
+});
+
+Clarinet.test({
+    name: "Ensure contract owner can collect and withdraw settled platform fees",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 1000;
+        const refundWindow = 10; // 10 blocks
+
+        // A third-party organizer creates an event and a user buys a ticket
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: refundWindow,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address)
+        ]);
+
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user2.address)
+        ]);
+
+        // Fees cannot be collected while the refund window is open
+        block = chain.mineBlock([
+            collectPlatformFees(1).by(deployer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.FundsLocked);
+
+        // Mine several blocks to go beyond the refund window
+        for (let i = 0; i < refundWindow + 1; i++)
+        {
+            chain.mineBlock([]);
+        }
+
+        // Only the contract owner may collect or withdraw fees
+        block = chain.mineBlock([
+            collectPlatformFees(1).by(organizer.address),
+            collectPlatformFees(1).by(deployer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.NotAuthorized);
+        assertEquals(block.receipts[1].result, '(ok true)');
+
+        let accrued = callReadOnly(chain, getPlatformFeesAccrued());
+
+        assertEquals(accrued, PLATFORM_FEE);
+
+        const balancesBefore = chain.getAssetsMaps().assets['STX'];
+
+        block = chain.mineBlock([
+            withdrawPlatformFees(PLATFORM_FEE).by(organizer.address),
+            withdrawPlatformFees(PLATFORM_FEE + 1).by(deployer.address),
+            withdrawPlatformFees(PLATFORM_FEE).by(deployer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.NotAuthorized);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.InsufficientFunds);
+        assertEquals(block.receipts[2].result, '(ok true)');
+
+        // Verify the fee moved from the contract to the owner, leaving the organizer share
+        const balancesAfter = chain.getAssetsMaps().assets['STX'];
+        assertEquals(balancesAfter[deployer.address], balancesBefore[deployer.address] + PLATFORM_FEE);
+        assertEquals(balancesAfter[contractPrincipal], TICKET_PRICE - PLATFORM_FEE);
+
+        const withdrawn = callReadOnly(chain, getPlatformFeesWithdrawn());
+
+        assertEquals(withdrawn, PLATFORM_FEE);
+
+        // The organizer can still withdraw their share
+        block = chain.mineBlock([
+            withdrawProceeds(1).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(chain.getAssetsMaps().assets['STX'][contractPrincipal], 0);
+
+        accrued = callReadOnly(chain, getPlatformFeesAccrued());
+
+        assertEquals(accrued, PLATFORM_FEE);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure organizer revenue totals reconcile with per-event revenue across sales and refunds",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+        const secondPrice = TICKET_PRICE * 2;
+        const secondFee = Math.floor((secondPrice * PLATFORM_FEE_PERCENT) / 100);
+
+        // Organizer creates two events with different prices
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            createEvent({
+                name: "Second Event",
+                description: "Description for second event",
+                venue: "Second Venue",
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: secondPrice,
+                refundWindow: REFUND_WINDOW,
+                category: "Workshop",
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address)
+        ]);
+
+        // Users buy tickets for both events, then one ticket is refunded
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user2.address),
+            purchaseTicket(1).by(user3.address),
+            purchaseTicket(2).by(user2.address)
+        ]);
+
+        block = chain.mineBlock([
+            refundTicket(2).by(user3.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        // Per-event gross revenue
+        const event1 = callReadOnly(chain, getEvent(1))!;
+        const event2 = callReadOnly(chain, getEvent(2))!;
+
+        assertEquals(event1.revenue, TICKET_PRICE);
+        assertEquals(event2.revenue, secondPrice);
+
+        // Organizer totals are the per-event revenue net of platform fees
+        const organizerInfo = callReadOnly(chain, getOrganizerRevenue(organizer.address))!;
+
+        const expectedRevenue = event1.revenue - PLATFORM_FEE
+            + event2.revenue - secondFee;
+
+        assertEquals(organizerInfo.totalRevenue, expectedRevenue);
+        assertEquals(organizerInfo.pendingWithdrawals, expectedRevenue);
+        assertEquals(organizerInfo.eventsOrganized, 2);
+
+        // ...which is exactly what the escrows hold for the organizer
+        const escrow1 = callReadOnly(chain, getEventEscrow(1))!;
+        const escrow2 = callReadOnly(chain, getEventEscrow(2))!;
+
+        assertEquals(escrow1.balance + escrow2.balance, expectedRevenue);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure organizer can make partial revenue withdrawals",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 1000;
+        const refundWindow = 10; // 10 blocks
+        const organizerShare = TICKET_PRICE - PLATFORM_FEE;
+        const firstWithdrawal = Math.floor(organizerShare / 2);
+
+        // Create an event and sell a ticket
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: refundWindow,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address)
+        ]);
+
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user2.address)
+        ]);
+
+        // Revenue is locked until the refund window closes
+        block = chain.mineBlock([
+            withdrawRevenue(1, firstWithdrawal).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.FundsLocked);
+
+        // Mine several blocks to go beyond the refund window
+        for (let i = 0; i < refundWindow + 1; i++)
+        {
+            chain.mineBlock([]);
+        }
+
+        const balancesBefore = chain.getAssetsMaps().assets['STX'];
+
+        // Withdraw part of the balance
+        block = chain.mineBlock([
+            withdrawRevenue(1, firstWithdrawal).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        block.receipts[0].events.expectSTXTransferEvent(
+            firstWithdrawal,
+            `${accounts.get('deployer')!.address}.${CONTRACT_NAME}`,
+            organizer.address
+        );
+
+        let organizerInfo = callReadOnly(chain, getOrganizerRevenue(organizer.address))!;
+
+        assertEquals(organizerInfo.totalRevenue, organizerShare);
+        assertEquals(organizerInfo.pendingWithdrawals, organizerShare - firstWithdrawal);
+
+        // Withdrawing more than what is left fails with ERR-INSUFFICIENT-FUNDS
+        block = chain.mineBlock([
+            withdrawRevenue(1, organizerShare - firstWithdrawal + 1).by(organizer.address),
+            withdrawRevenue(1, organizerShare - firstWithdrawal).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.InsufficientFunds);
+        assertEquals(block.receipts[1].result, '(ok true)');
+
+        organizerInfo = callReadOnly(chain, getOrganizerRevenue(organizer.address))!;
+
+        assertEquals(organizerInfo.totalRevenue, organizerShare);
+        assertEquals(organizerInfo.pendingWithdrawals, 0);
+
+        const balancesAfter = chain.getAssetsMaps().assets['STX'];
+        assertEquals(balancesAfter[organizer.address], balancesBefore[organizer.address] + organizerShare);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure ticket owner can transfer a ticket when the event allows transfers",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        // Create an event with free transfers
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
+        ]);
+
+        // User1 purchases two tickets
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user1.address),
+            purchaseTicket(1).by(user1.address)
+        ]);
+
+        // User1 hands the first ticket to user2
+        block = chain.mineBlock([
+            transferTicket(1, user2.address).by(user1.address)
+        ]);
+
+        assertEquals(block.receipts.length, 1);
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        // Verify the ticket owner was updated
+        const ticket = callReadOnly(chain, getTicket(1));
+
+        assertEquals(ticket!.owner, user2.address);
+
+        // Verify both owners' ticket lists were updated
+        const user1Tickets = callReadOnly(chain, getUserTicketsPage(user1.address, 0, 50));
+
+        const user2Tickets = callReadOnly(chain, getUserTicketsPage(user2.address, 0, 50));
+
+        assertEquals(user1Tickets.length, 1);
+        assertEquals(user1Tickets[0], 2);
+        assertEquals(user2Tickets.length, 1);
+        assertEquals(user2Tickets[0], 1);
+
+        // The previous owner can no longer move the ticket
+        block = chain.mineBlock([
+            transferTicket(1, user1.address).by(user1.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.NotAuthorized);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure transfers fail when the event disallows them",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        // Create an event without transfers
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Disabled
+            }).by(deployer.address)
+        ]);
+
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user1.address)
+        ]);
+
+        block = chain.mineBlock([
+            transferTicket(1, user2.address).by(user1.address)
+        ]);
+
+        // Assert that the transfer failed with ERR-TRANSFER-NOT-ALLOWED
+        assertEquals(block.receipts.length, 1);
+        assertEquals(decodeError(block.receipts[0].result), ContractError.TransferNotAllowed);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure transfers close once the event's transfer cutoff is reached",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 50;
+        const transferCutoff = 20; // 20 blocks before the event
+
+        // Create an event with a transfer cutoff
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.UntilCutoff,
+                transferCutoff: transferCutoff
+            }).by(deployer.address)
+        ]);
+
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user1.address)
+        ]);
+
+        // Transfers are open well before the cutoff
+        block = chain.mineBlock([
+            transferTicket(1, user2.address).by(user1.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        // Mine blocks until the cutoff is reached
+        while (chain.blockHeight < futureDate - transferCutoff)
+        {
+            chain.mineBlock([]);
+        }
+
+        block = chain.mineBlock([
+            transferTicket(1, user1.address).by(user2.address)
+        ]);
+
+        // Assert that the transfer failed with ERR-TRANSFER-NOT-ALLOWED
+        assertEquals(decodeError(block.receipts[0].result), ContractError.TransferNotAllowed);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure used and refunded tickets cannot be transferred",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        // Create an event with free transfers
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address)
+        ]);
+
+        // User1 buys two tickets; one is validated and the other refunded
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user1.address),
+            purchaseTicket(1).by(user1.address)
+        ]);
+
+        block = chain.mineBlock([
+            refundTicket(2).by(user1.address)
+        ]);
+
+        // Check-in opens on the event date
+        chain.mineEmptyBlockUntil(futureDate);
+
+        block = chain.mineBlock([
+            validateTicket(1).by(deployer.address)
+        ]);
+
+        block = chain.mineBlock([
+            transferTicket(1, user2.address).by(user1.address),
+            transferTicket(2, user2.address).by(user1.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.TicketUsed);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.TicketRefunded);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure event creation fails with an unknown transfer policy",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: 3 as TransferPolicy
+            }).by(deployer.address)
+        ]);
+
+        // Assert that the event creation failed with ERR-INVALID-TRANSFER-POLICY
+        assertEquals(block.receipts.length, 1);
+        assertEquals(decodeError(block.receipts[0].result), ContractError.InvalidTransferPolicy);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure tickets can be listed and bought on the resale market with royalties and fees",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const seller = accounts.get('wallet_2')!;
+        const buyer = accounts.get('wallet_3')!;
+        const venue = accounts.get('wallet_4')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 1000;
+        const maxMarkupPercent = 20;
+        const royaltyPercent = 10;
+        const resalePrice = Math.floor((TICKET_PRICE * (100 + maxMarkupPercent)) / 100);
+        const royalty = Math.floor((resalePrice * royaltyPercent) / 100);
+        const resaleFee = Math.floor((resalePrice * PLATFORM_FEE_PERCENT) / 100);
+
+        // Create an event with transfers, a resale policy and a revenue split
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed,
+                revenueSplit: [
+                    { payee: organizer.address, share: BASIS_POINTS / 2 },
+                    { payee: venue.address, share: BASIS_POINTS / 2 }
+                ]
+            }).by(organizer.address),
+            setResalePolicy(1, maxMarkupPercent, royaltyPercent).by(organizer.address),
+            purchaseTicket(1).by(seller.address)
+        ]);
+
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(block.receipts[2].result, '(ok true)');
+
+        // Seller lists the ticket at the maximum allowed price
+        block = chain.mineBlock([
+            listTicketForResale(1, resalePrice).by(seller.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        const listing = callReadOnly(chain, getResaleListing(1))!;
+
+        assertEquals(listing.seller, seller.address);
+        assertEquals(listing.price, resalePrice);
+
+        const balancesBefore = chain.getAssetsMaps().assets['STX'];
+        const escrowBefore = callReadOnly(chain, getEventEscrow(1))!;
+        const revenueBefore = callReadOnly(chain, getOrganizerRevenue(organizer.address))!;
+
+        // Buyer purchases the listed ticket
+        block = chain.mineBlock([
+            buyResaleTicket(1).by(buyer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        // The seller is paid, while the royalty and platform fee go to the contract
+        const balancesAfter = chain.getAssetsMaps().assets['STX'];
+        assertEquals(balancesAfter[buyer.address], balancesBefore[buyer.address] - resalePrice);
+        assertEquals(balancesAfter[seller.address], balancesBefore[seller.address] + resalePrice - royalty - resaleFee);
+        assertEquals(balancesAfter[organizer.address], balancesBefore[organizer.address]);
+        assertEquals(balancesAfter[contractPrincipal], balancesBefore[contractPrincipal] + royalty + resaleFee);
+
+        // The royalty joins the escrow and is shared by the revenue split, with
+        // nothing held for refunds
+        assertEquals(callReadOnly(chain, getEventEscrow(1))!.balance, escrowBefore.balance + royalty);
+        assertEquals(callReadOnly(chain, getOrganizerRevenue(organizer.address))!.pendingWithdrawals, revenueBefore.pendingWithdrawals + royalty);
+
+        const organizerStatement = callReadOnly(chain, getPayeeStatement(1, organizer.address))!;
+        const venueStatement = callReadOnly(chain, getPayeeStatement(1, venue.address))!;
+        const organizerShare = Math.floor((TICKET_PRICE - Math.floor((TICKET_PRICE * PLATFORM_FEE_PERCENT) / 100)) / 2);
+
+        assertEquals(organizerStatement.credited, organizerShare + Math.floor(royalty / 2));
+        assertEquals(venueStatement.credited + organizerStatement.credited, escrowBefore.balance + royalty);
+        assertEquals(organizerStatement.held + venueStatement.held, escrowBefore.balance);
+
+        const accrued = callReadOnly(chain, getPlatformFeesAccrued());
+
+        assertEquals(accrued, resaleFee);
+
+        // Verify the ticket changed hands and the listing is gone
+        const ticket = callReadOnly(chain, getTicket(1));
+
+        assertEquals(ticket!.owner, buyer.address);
+
+        const listingAfter = callReadOnly(chain, getResaleListing(1));
+
+        assertEquals(listingAfter, null);
+
+        const buyerTickets = callReadOnly(chain, getUserTicketsPage(buyer.address, 0, 50));
+
+        assertEquals(buyerTickets.length, 1);
+        assertEquals(buyerTickets[0], 1);
+
+        // The ticket cannot be bought twice
+        block = chain.mineBlock([
+            buyResaleTicket(1).by(seller.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.ListingNotFound);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure resale listings above the organizer's price cap are rejected",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const seller = accounts.get('wallet_2')!;
+        const buyer = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+        const maxMarkupPercent = 10;
+        const maxPrice = Math.floor((TICKET_PRICE * (100 + maxMarkupPercent)) / 100);
+
+        // Create an event and buy a ticket before any policy exists
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            purchaseTicket(1).by(seller.address)
+        ]);
+
+        // Without a policy tickets can only be resold at face value
+        block = chain.mineBlock([
+            listTicketForResale(1, TICKET_PRICE + 1).by(seller.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.PriceCapExceeded);
+
+        // Only the organizer can set the resale policy
+        block = chain.mineBlock([
+            setResalePolicy(1, 1000, 0).by(seller.address),
+            setResalePolicy(1, maxMarkupPercent, 5).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.NotAuthorized);
+        assertEquals(block.receipts[1].result, '(ok true)');
+
+        const maxResalePrice = callReadOnly(chain, getMaxResalePrice(1));
+
+        assertEquals(maxResalePrice, maxPrice);
+
+        // Listing one microSTX above the cap fails, at the cap succeeds
+        block = chain.mineBlock([
+            listTicketForResale(1, maxPrice + 1).by(seller.address),
+            listTicketForResale(1, maxPrice).by(seller.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.PriceCapExceeded);
+        assertEquals(block.receipts[1].result, '(ok true)');
+
+        // Tightening the cap afterwards stops the listing from selling above it
+        block = chain.mineBlock([
+            setResalePolicy(1, 0, 5).by(organizer.address),
+            buyResaleTicket(1).by(buyer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[1].result), ContractError.PriceCapExceeded);
+        assertEquals(callReadOnly(chain, getTicket(1))!.owner, seller.address);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure resale listings can be cancelled by the seller only",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const seller = accounts.get('wallet_2')!;
+        const buyer = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        // Create an event, buy a ticket and list it
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            purchaseTicket(1).by(seller.address),
+            listTicketForResale(1, TICKET_PRICE).by(seller.address)
+        ]);
+
+        assertEquals(block.receipts[2].result, '(ok true)');
+
+        block = chain.mineBlock([
+            cancelResaleListing(1).by(buyer.address),
+            cancelResaleListing(1).by(seller.address),
+            buyResaleTicket(1).by(buyer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.NotAuthorized);
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[2].result), ContractError.ListingNotFound);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure resale listings are voided when the ticket is transferred, validated or refunded",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const seller = accounts.get('wallet_2')!;
+        const friend = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        // Create an event and buy three tickets
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            purchaseTicket(1).by(seller.address),
+            purchaseTicket(1).by(seller.address),
+            purchaseTicket(1).by(seller.address)
+        ]);
+
+        // List all three tickets
+        block = chain.mineBlock([1, 2, 3].map((ticketId) => listTicketForResale(ticketId, TICKET_PRICE).by(seller.address)));
+
+        block.receipts.forEach((receipt) => assertEquals(receipt.result, '(ok true)'));
+
+        // Transfer the first and refund the third, then validate the second at check-in
+        block = chain.mineBlock([
+            transferTicket(1, friend.address).by(seller.address),
+            refundTicket(3).by(seller.address)
+        ]);
+
+        block.receipts.forEach((receipt) => assertEquals(receipt.result, '(ok true)'));
+
+        chain.mineEmptyBlockUntil(futureDate);
+
+        block = chain.mineBlock([
+            validateTicket(2).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        // Every listing was voided
+        for (const ticketId of [1, 2, 3])
+        {
+            const listing = callReadOnly(chain, getResaleListing(ticketId));
+
+            assertEquals(listing, null);
+        }
+    },
+});
+
+Clarinet.test({
+    name: "Ensure organizer can cancel an event and holders can claim full refunds",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 1000;
+        const refundWindow = 5; // 5 blocks
+
+        // Create an event with a short refund window
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: refundWindow,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address)
+        ]);
+
+        const balancesBefore = chain.getAssetsMaps().assets['STX'];
+
+        // Two users purchase tickets
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user2.address),
+            purchaseTicket(1).by(user3.address)
+        ]);
+
+        // Mine several blocks to go beyond the refund window
+        for (let i = 0; i < refundWindow + 1; i++)
+        {
+            chain.mineBlock([]);
+        }
+
+        // A regular user cannot cancel the event, the organizer can
+        block = chain.mineBlock([
+            cancelEvent(1).by(user2.address),
+            cancelEvent(1).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.NotAuthorized);
+        assertEquals(block.receipts[1].result, '(ok true)');
+
+        const event = callReadOnly(chain, getEvent(1));
+
+        assertEquals(event!.isActive, false);
+
+        let unclaimed = callReadOnly(chain, getUnclaimedRefunds(1));
+
+        assertEquals(unclaimed, 2);
+
+        // Purchases and check-ins are blocked, and every sale is owed back
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user3.address),
+            validateTicket(1).by(organizer.address),
+            withdrawProceeds(1).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.EventCancelled);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.EventCancelled);
+        assertEquals(decodeError(block.receipts[2].result), ContractError.InsufficientFunds);
+
+        // The first holder claims a refund even though the refund window has closed
+        block = chain.mineBlock([
+            claimCancellationRefund(1).by(user3.address),
+            claimCancellationRefund(1).by(user2.address),
+            claimCancellationRefund(1).by(user2.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.NotAuthorized);
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[2].result), ContractError.TicketRefunded);
+
+        unclaimed = callReadOnly(chain, getUnclaimedRefunds(1));
+
+        assertEquals(unclaimed, 1);
+
+        // The second holder claims too, emptying the escrow
+        block = chain.mineBlock([
+            claimCancellationRefund(2).by(user3.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        unclaimed = callReadOnly(chain, getUnclaimedRefunds(1));
+
+        assertEquals(unclaimed, 0);
+
+        const balancesAfter = chain.getAssetsMaps().assets['STX'];
+        assertEquals(balancesAfter[user2.address], balancesBefore[user2.address]);
+        assertEquals(balancesAfter[user3.address], balancesBefore[user3.address]);
+        assertEquals(balancesAfter[contractPrincipal], 0);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure contract owner can cancel an event and it cannot be cancelled twice",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address)
+        ]);
+
+        block = chain.mineBlock([
+            cancelEvent(1).by(deployer.address),
+            cancelEvent(1).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[1].result), ContractError.EventCancelled);
+
+        const cancellation = callReadOnly(chain, getEventCancellation(1))!;
+
+        assertEquals(cancellation.cancelledBy, deployer.address);
+        assertEquals(cancellation.unclaimedRefunds, 0);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure cancellation refunds cannot be claimed for active events",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(deployer.address),
+            purchaseTicket(1).by(user1.address)
+        ]);
+
+        block = chain.mineBlock([
+            claimCancellationRefund(1).by(user1.address)
+        ]);
+
+        // Assert that the claim failed with ERR-EVENT-NOT-CANCELLED
+        assertEquals(decodeError(block.receipts[0].result), ContractError.EventNotCancelled);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure an event cannot be cancelled once its escrow can no longer cover every refund",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        // Without a refund window the proceeds settle right after each sale
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: 0,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: 0,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address)
+        ]);
+
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user2.address),
+            purchaseTicket(1).by(user3.address),
+            purchaseTicket(2).by(user2.address)
+        ]);
+
+        assertEquals(callReadOnly(chain, getEventEscrow(1))!.feesHeld, PLATFORM_FEE * 2);
+        assertEquals(callReadOnly(chain, getPayeeStatement(1, organizer.address))!.held, (TICKET_PRICE - PLATFORM_FEE) * 2);
+        assertEquals(callReadOnly(chain, isEscrowCovered(1)), true);
+
+        // A single micro-STX drawn from the first event, and the fees of the second
+        block = chain.mineBlock([
+            withdrawRevenue(1, 1).by(organizer.address),
+            collectPlatformFees(2).by(deployer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(callReadOnly(chain, isEscrowCovered(1)), false);
+        assertEquals(callReadOnly(chain, isEscrowCovered(2)), false);
+
+        block = chain.mineBlock([
+            cancelEvent(1).by(organizer.address),
+            cancelEvent(2).by(deployer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.RefundsUncovered);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.RefundsUncovered);
+        assertEquals(callReadOnly(chain, getEvent(1))!.isActive, true);
+        assertEquals(callReadOnly(chain, getEvent(2))!.isActive, true);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure tickets used before a cancellation are not refunded",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+        const proceeds = TICKET_PRICE - PLATFORM_FEE;
+
+        // Doors open well ahead of the event date, right after the sale
+        const doorsOpen = chain.blockHeight + 2;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            setEventSchedule(1, { saleStart: 0, saleEnd: doorsOpen, checkInStart: doorsOpen, checkInEnd: futureDate + 1 }).by(organizer.address),
+            purchaseTicket(1).by(user2.address),
+            purchaseTicket(1).by(user3.address)
+        ]);
+
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(block.receipts[3].result, '(ok true)');
+
+        // Checking a ticket in releases what was held against its refund
+        block = chain.mineBlock([
+            validateTicket(1).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(callReadOnly(chain, getEventEscrow(1))!.feesHeld, PLATFORM_FEE);
+        assertEquals(callReadOnly(chain, getPayeeStatement(1, organizer.address))!.held, proceeds);
+
+        block = chain.mineBlock([
+            cancelEvent(1).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(callReadOnly(chain, getUnclaimedRefunds(1)), 1);
+
+        block = chain.mineBlock([
+            claimCancellationRefund(1).by(user2.address),
+            claimCancellationRefund(2).by(user3.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.TicketUsed);
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(callReadOnly(chain, getUnclaimedRefunds(1)), 0);
+        assertEquals(callReadOnly(chain, getTicket(1))!.isRefunded, false);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure a cancelled event releases what refunds can no longer claim",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 1000;
+        const keptProceeds = (TICKET_PRICE - PLATFORM_FEE) / 2;
+        const keptFee = PLATFORM_FEE / 2;
+
+        // Refunds pay back half the price until the event date
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            setRefundSchedule(1, [{ blocksBefore: 0, percent: 50 }]).by(organizer.address),
+            purchaseTicket(1).by(user2.address),
+            purchaseTicket(1).by(user3.address)
+        ]);
+
+        block = chain.mineBlock([
+            refundTicket(1).by(user2.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        // Nothing is released while the event is on
+        assertEquals(callReadOnly(chain, getWithdrawableBalance(1, organizer.address)), 0);
+        assertEquals(callReadOnly(chain, getCollectableFees(1)), 0);
+
+        block = chain.mineBlock([
+            cancelEvent(1).by(organizer.address),
+            withdrawProceeds(1).by(organizer.address),
+            collectPlatformFees(1).by(deployer.address)
+        ]);
+
+        // The kept half of the partial refund is released right away
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(block.receipts[1].result, '(ok true)');
+        block.receipts[1].events.expectSTXTransferEvent(keptProceeds, contractPrincipal, organizer.address);
+        assertEquals(block.receipts[2].result, '(ok true)');
+        assertEquals(callReadOnly(chain, getPlatformFeesAccrued()), keptFee);
+
+        // While the outstanding ticket's refund stays payable
+        assertEquals(callReadOnly(chain, getWithdrawableBalance(1, organizer.address)), 0);
+        assertEquals(callReadOnly(chain, getCollectableFees(1)), 0);
+
+        block = chain.mineBlock([
+            withdrawRevenue(1, 1).by(organizer.address),
+            claimCancellationRefund(2).by(user3.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.InsufficientFunds);
+        assertEquals(block.receipts[1].result, '(ok true)');
+        block.receipts[1].events.expectSTXTransferEvent(TICKET_PRICE, contractPrincipal, user3.address);
+
+        // Only the accrued treasury fees are left behind
+        const escrow = callReadOnly(chain, getEventEscrow(1))!;
+
+        assertEquals(escrow.balance, 0);
+        assertEquals(escrow.platformFees, 0);
+        assertEquals(chain.getAssetsMaps().assets['STX'][contractPrincipal], keptFee);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure one tier can sell out while other tiers stay available",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+        const vipTierId = 2;
+        const vipPrice = TICKET_PRICE * 3;
+        const vipSupply = 2;
+
+        // Create an event and add a VIP tier
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            addTicketTier(1, { name: "VIP", price: vipPrice, supply: vipSupply }).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[1].result, '(ok true)');
+
+        // Verify both tiers exist and the event capacity is their aggregate
+        const defaultTier = callReadOnly(chain, getTicketTier(1, DEFAULT_TIER_ID))!;
+
+        assertEquals(defaultTier.name, "General Admission");
+        assertEquals(defaultTier.price, TICKET_PRICE);
+        assertEquals(defaultTier.supply, TOTAL_TICKETS);
+
+        let eventData = callReadOnly(chain, getEvent(1))!;
+
+        assertEquals(eventData.totalTickets, TOTAL_TICKETS + vipSupply);
+        assertEquals(eventData.tierCount, 2);
+
+        // Users sell out the VIP tier
+        block = chain.mineBlock([
+            purchaseTicket(1, { tierId: vipTierId }).by(user2.address),
+            purchaseTicket(1, { tierId: vipTierId }).by(user3.address),
+            purchaseTicket(1, { tierId: vipTierId }).by(user3.address),
+            purchaseTicket(1).by(user3.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[2].result), ContractError.SoldOut);
+        assertEquals(block.receipts[3].result, '(ok true)');
+
+        // Verify the tickets record their tier and price
+        const vipTicket = callReadOnly(chain, getTicket(1))!;
+
+        assertEquals(vipTicket.tierId, vipTierId);
+        assertEquals(vipTicket.purchasePrice, vipPrice);
+
+        const gaTicket = callReadOnly(chain, getTicket(3))!;
+
+        assertEquals(gaTicket.tierId, DEFAULT_TIER_ID);
+        assertEquals(gaTicket.purchasePrice, TICKET_PRICE);
+
+        // Event totals are the aggregate of all tiers
+        eventData = callReadOnly(chain, getEvent(1))!;
+
+        assertEquals(eventData.ticketsSold, 3);
+        assertEquals(eventData.revenue, vipPrice * 2 + TICKET_PRICE);
+
+        const vipTier = callReadOnly(chain, getTicketTier(1, vipTierId))!;
+
+        assertEquals(vipTier.sold, vipSupply);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure tiers can only be added by the organizer before sales begin",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            addTicketTier(1, { name: "VIP", price: TICKET_PRICE, supply: 10 }).by(user2.address),
+            addTicketTier(1, { name: "VIP", price: 100, supply: 10 }).by(organizer.address),
+            purchaseTicket(1, { tierId: 2 }).by(user2.address),
+            purchaseTicket(1).by(user2.address),
+            addTicketTier(1, { name: "VIP", price: TICKET_PRICE, supply: 10 }).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[1].result), ContractError.NotAuthorized);
+        assertEquals(decodeError(block.receipts[2].result), ContractError.InvalidPrice);
+        assertEquals(decodeError(block.receipts[3].result), ContractError.TierNotFound);
+        assertEquals(block.receipts[4].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[5].result), ContractError.SalesStarted);
+
+        // Refunding the only sale doesn't reopen the tiers
+        block = chain.mineBlock([
+            refundTicket(1).by(user2.address),
+            addTicketTier(1, { name: "VIP", price: TICKET_PRICE, supply: 10 }).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(callReadOnly(chain, getEvent(1))!.ticketsSold, 0);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.SalesStarted);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure tier sales are limited to the tier's sale window",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 1000;
+        const earlyBirdEnd = chain.blockHeight + 5;
+        const lateSaleStart = chain.blockHeight + 10;
+
+        // Create an event with an early bird tier and a late tier
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            addTicketTier(1, { name: "Early Bird", price: TICKET_PRICE / 2, supply: 10, saleEnd: earlyBirdEnd }).by(organizer.address),
+            addTicketTier(1, { name: "Late", price: TICKET_PRICE * 2, supply: 10, saleStart: lateSaleStart }).by(organizer.address)
+        ]);
+
+        // Early bird is on sale, the late tier is not yet
+        block = chain.mineBlock([
+            purchaseTicket(1, { tierId: 2 }).by(user2.address),
+            purchaseTicket(1, { tierId: 3 }).by(user2.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[1].result), ContractError.TierNotOnSale);
+
+        // Mine until the late tier opens
+        while (chain.blockHeight < lateSaleStart)
+        {
+            chain.mineBlock([]);
+        }
+
+        block = chain.mineBlock([
+            purchaseTicket(1, { tierId: 2 }).by(user2.address),
+            purchaseTicket(1, { tierId: 3 }).by(user2.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.TierNotOnSale);
+        assertEquals(block.receipts[1].result, '(ok true)');
+    },
+});
+
+Clarinet.test({
+    name: "Ensure buyers can purchase a specific seat at the section price",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+        const balconyPrice = TICKET_PRICE + 30000000; // 80 STX
+
+        // Create an event with a balcony section of two rows
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            addSeatSection(1, { name: "Balcony", tierId: DEFAULT_TIER_ID, priceOverride: balconyPrice }).by(organizer.address),
+            addSeatRow(1, 1, 1, 101, 110).by(organizer.address),
+            addSeatRow(1, 1, 2, 201, 212).by(organizer.address),
+            addSeatRow(1, 1, 2, 1, 5).by(organizer.address),
+            addSeatRow(1, 1, 3, 1, 5).by(user2.address)
+        ]);
+
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(block.receipts[2].result, '(ok true)');
+        assertEquals(block.receipts[3].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[4].result), ContractError.AlreadyExists);
+        assertEquals(decodeError(block.receipts[5].result), ContractError.NotAuthorized);
+
+        const balancesBefore = chain.getAssetsMaps().assets['STX'];
+
+        // User2 buys seat 105 in row 1
+        block = chain.mineBlock([
+            purchaseSeat(1, 1, 1, 105).by(user2.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        // Verify the section price was charged and the seat recorded on the ticket
+        const balancesAfter = chain.getAssetsMaps().assets['STX'];
+        assertEquals(balancesAfter[user2.address], balancesBefore[user2.address] - balconyPrice);
+
+        const ticketData = callReadOnly(chain, getTicket(1))!;
+
+        assertEquals(ticketData.purchasePrice, balconyPrice);
+        assertEquals(ticketData.seatSection, 1);
+        assertEquals(ticketData.seatRow, 1);
+        assertEquals(ticketData.seatNumber, 105);
+
+        // The seat is taken, seats outside the row range do not exist and a
+        // buyer's max price below the section price leaves the seat free
+        block = chain.mineBlock([
+            purchaseSeat(1, 1, 1, 105).by(user3.address),
+            purchaseSeat(1, 1, 1, 111).by(user3.address),
+            purchaseSeat(1, 2, 1, 105).by(user3.address),
+            purchaseSeat(1, 1, 1, 106, { maxPrice: balconyPrice - 1 }).by(user3.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.SeatTaken);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.SeatNotFound);
+        assertEquals(decodeError(block.receipts[2].result), ContractError.SectionNotFound);
+        assertEquals(decodeError(block.receipts[3].result), ContractError.MaxPriceExceeded);
+        assertEquals(callReadOnly(chain, getSeatAssignment(1, 1, 1, 106)), null);
+
+        // Verify section availability
+        const availability = callReadOnly(chain, getSectionAvailability(1, 1))!;
+
+        assertEquals(availability.seatCount, 22);
+        assertEquals(availability.seatsSold, 1);
+        assertEquals(availability.seatsAvailable, 21);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure a seat cannot be double-booked by purchases in the same block",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            addSeatSection(1, { name: "Stalls", tierId: DEFAULT_TIER_ID }).by(organizer.address),
+            addSeatRow(1, 1, 1, 1, 10).by(organizer.address)
+        ]);
+
+        // Two users race for the same seat in one block
+        block = chain.mineBlock([
+            purchaseSeat(1, 1, 1, 7).by(user2.address),
+            purchaseSeat(1, 1, 1, 7).by(user3.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[1].result), ContractError.SeatTaken);
+
+        assertEquals(callReadOnly(chain, getSeatAssignment(1, 1, 1, 7)), 1);
+
+        // Only one ticket was sold
+        const eventData = callReadOnly(chain, getEvent(1))!;
+
+        assertEquals(eventData.ticketsSold, 1);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure refunds and cancellations release seats back into inventory",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            addSeatSection(1, { name: "Stalls", tierId: DEFAULT_TIER_ID }).by(organizer.address),
+            addSeatRow(1, 1, 1, 1, 10).by(organizer.address),
+            purchaseSeat(1, 1, 1, 1).by(user2.address),
+            purchaseSeat(1, 1, 1, 2).by(user2.address)
+        ]);
+
+        // Refunding the first ticket frees seat 1 for someone else
+        block = chain.mineBlock([
+            refundTicket(1).by(user2.address),
+            purchaseSeat(1, 1, 1, 1).by(user3.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(block.receipts[1].result, '(ok true)');
+
+        assertEquals(callReadOnly(chain, getSeatAssignment(1, 1, 1, 1)), 3);
+
+        // Cancelling the event and claiming releases the remaining seats
+        block = chain.mineBlock([
+            cancelEvent(1).by(organizer.address),
+            claimCancellationRefund(2).by(user2.address),
+            claimCancellationRefund(3).by(user3.address)
+        ]);
+
+        block.receipts.forEach((receipt) => assertEquals(receipt.result, '(ok true)'));
+
+        for (const seat of [1, 2])
+        {
+            assertEquals(callReadOnly(chain, getSeatAssignment(1, 1, 1, seat)), null);
+        }
+
+        const availability = callReadOnly(chain, getSectionAvailability(1, 1))!;
+
+        assertEquals(availability.seatsSold, 0);
+        assertEquals(availability.seatsAvailable, 10);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure buyers can purchase several tickets in one transaction",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address)
+        ]);
+
+        const balancesBefore = chain.getAssetsMaps().assets['STX'];
+
+        // User2 buys three tickets at once
+        block = chain.mineBlock([
+            purchaseTickets(1, 3).by(user2.address),
+            purchaseTickets(1, 0).by(user2.address),
+            purchaseTickets(1, 11).by(user2.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok [u1, u2, u3])');
+        assertEquals(decodeError(block.receipts[1].result), ContractError.InvalidQuantity);
+        assertEquals(decodeError(block.receipts[2].result), ContractError.InvalidQuantity);
+
+        // Verify payment and ticket bookkeeping
+        const balancesAfter = chain.getAssetsMaps().assets['STX'];
+        assertEquals(balancesAfter[user2.address], balancesBefore[user2.address] - TICKET_PRICE * 3);
+
+        const userTickets = callReadOnly(chain, getUserTicketsPage(user2.address, 0, 50));
+
+        assertEquals(userTickets, [1, 2, 3]);
+
+        const eventData = callReadOnly(chain, getEvent(1))!;
+
+        assertEquals(eventData.ticketsSold, 3);
+        assertEquals(eventData.revenue, TICKET_PRICE * 3);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure batch purchases are all-or-nothing when supply runs out",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: 2,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address)
+        ]);
+
+        const balancesBefore = chain.getAssetsMaps().assets['STX'];
+
+        block = chain.mineBlock([
+            purchaseTickets(1, 3).by(user2.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.SoldOut);
+
+        // Nothing was charged or minted
+        const balancesAfter = chain.getAssetsMaps().assets['STX'];
+        assertEquals(balancesAfter[user2.address], balancesBefore[user2.address]);
+
+        const eventData = callReadOnly(chain, getEvent(1))!;
+
+        assertEquals(eventData.ticketsSold, 0);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure the per-wallet limit applies across single and batch purchases",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            setWalletLimit(1, 3).by(user2.address),
+            setWalletLimit(1, 3).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[1].result), ContractError.NotAuthorized);
+        assertEquals(block.receipts[2].result, '(ok true)');
+
+        // One single purchase, then a batch that would exceed the limit
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user2.address),
+            purchaseTickets(1, 3).by(user2.address),
+            purchaseTickets(1, 2).by(user2.address),
+            purchaseTicket(1).by(user2.address),
+            purchaseTickets(1, 3).by(user3.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[1].result), ContractError.WalletLimitReached);
+        assertEquals(block.receipts[2].result, '(ok [u2, u3])');
+        assertEquals(decodeError(block.receipts[3].result), ContractError.WalletLimitReached);
+        assertEquals(block.receipts[4].result, '(ok [u4, u5, u6])'); // other wallets are unaffected
+
+        const purchased = callReadOnly(chain, getWalletPurchases(1, user2.address));
+
+        assertEquals(purchased, 3);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure ticket indexes can be paged and stay dense after transfers",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            purchaseTickets(1, 5).by(user2.address)
+        ]);
+
+        assertEquals(block.receipts[1].result, '(ok [u1, u2, u3, u4, u5])');
+
+        // Transferring ticket 2 moves user2's last ticket into its slot
+        block = chain.mineBlock([
+            transferTicket(2, user3.address).by(user2.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        assertEquals(callReadOnly(chain, getUserTicketCount(user2.address)), 4);
+
+        const pages: [number, number, number[]][] = [[0, 2, [1, 5]], [2, 2, [3, 4]], [4, 2, []], [0, 50, [1, 5, 3, 4]]];
+        for (const [offset, limit, expected] of pages)
+        {
+            assertEquals(callReadOnly(chain, getUserTicketsPage(user2.address, offset, limit)), expected);
+        }
+
+        const recipientPage = callReadOnly(chain, getUserTicketsPage(user3.address, 0, 50));
+
+        assertEquals(recipientPage, [2]);
+
+        // The event index is unaffected by transfers
+        const eventPage = callReadOnly(chain, getEventTicketsPage(1, 0, 50));
+
+        assertEquals(eventPage, [1, 2, 3, 4, 5]);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure an event can sell more than 1000 tickets to a single buyer",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 1000;
+        const totalTickets = 1100;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: totalTickets,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address)
+        ]);
+
+        const purchases = [];
+        for (let i = 0; i < totalTickets / 10; i++)
+        {
+            purchases.push(purchaseTickets(1, 10).by(user2.address));
+        }
+        block = chain.mineBlock(purchases);
+
+        // Every batch succeeds, including those past the old 1000-entry list cap
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+
+        // Receipts carry no execution costs, so whether a late batch costs the
+        // same as the first is left to `clarinet test --costs`. Here the index
+        // pages are checked at both ends
+        assertEquals(callReadOnly(chain, getUserTicketsPage(user2.address, 0, 10)).length, 10);
+        assertEquals(callReadOnly(chain, getUserTicketsPage(user2.address, totalTickets - 10, 10)).length, 10);
+
+        assertEquals(callReadOnly(chain, getEventTicketCount(1)), totalTickets);
+
+        assertEquals(callReadOnly(chain, getUserTicketCount(user2.address)), totalTickets);
+
+        const lastPage = callReadOnly(chain, getEventTicketsPage(1, totalTickets - 3, 50));
+
+        assertEquals(lastPage, [1098, 1099, 1100]);
+
+        // A ticket sold after the index passed 1000 entries can still be transferred
+        block = chain.mineBlock([
+            transferTicket(totalTickets, organizer.address).by(user2.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+    },
+});
+
+Clarinet.test({
+    name: "Ensure tickets implement the SIP-009 NFT interface",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+        const baseUri = "ipfs://bafy-event-metadata/";
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            setEventBaseUri(1, baseUri).by(user2.address),
+            purchaseTickets(1, 2).by(user2.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[1].result), ContractError.NotAuthorized);
+
+        // No base URI set yet
+        let tokenUri = callReadOnly(chain, getTokenUri(1));
+
+        assertEquals(tokenUri, null);
+
+        block = chain.mineBlock([
+            setEventBaseUri(1, baseUri).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        // Verify the trait read-only functions
+        const lastTokenId = callReadOnly(chain, getLastTokenId());
+
+        assertEquals(lastTokenId, 2);
+
+        tokenUri = callReadOnly(chain, getTokenUri(2));
+
+        assertEquals(tokenUri, `${baseUri}2`);
+
+        let owner = callReadOnly(chain, getOwner(1));
+
+        assertEquals(owner, user2.address);
+
+        owner = callReadOnly(chain, getOwner(3));
+
+        assertEquals(owner, null);
+
+        // Transfer through the trait: only the sender can move their ticket
+        block = chain.mineBlock([
+            transfer(1, user2.address, user3.address).by(user3.address),
+            transfer(1, user2.address, user3.address).by(user2.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.NotAuthorized);
+        assertEquals(block.receipts[1].result, '(ok true)');
+
+        // The NFT owner, ticket record and user indexes agree
+        owner = callReadOnly(chain, getOwner(1));
+
+        assertEquals(owner, user3.address);
+
+        const ticketData = callReadOnly(chain, getTicket(1))!;
+
+        assertEquals(ticketData.owner, user3.address);
+
+        const user3Tickets = callReadOnly(chain, getUserTicketsPage(user3.address, 0, 50));
+
+        assertEquals(user3Tickets, [1]);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure ticket NFTs are minted on purchase, moved on transfer and burned on refund",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+        const nftAsset = `.${CONTRACT_NAME}.event-ticket`;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            purchaseTickets(1, 3).by(user2.address)
+        ]);
+
+        let nfts = chain.getAssetsMaps().assets[nftAsset];
+        assertEquals(nfts[user2.address], 3);
+
+        // Transfer one ticket to user3
+        block = chain.mineBlock([
+            transferTicket(1, user3.address).by(user2.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        nfts = chain.getAssetsMaps().assets[nftAsset];
+        assertEquals(nfts[user2.address], 2);
+        assertEquals(nfts[user3.address], 1);
+
+        // Refunding a ticket burns its NFT and drops it from the owner's index
+        block = chain.mineBlock([
+            refundTicket(2).by(user2.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        nfts = chain.getAssetsMaps().assets[nftAsset];
+        assertEquals(nfts[user2.address], 1);
+        assertEquals(nfts[user3.address], 1);
+
+        const owner = callReadOnly(chain, getOwner(2));
+
+        assertEquals(owner, null);
+
+        const user2Tickets = callReadOnly(chain, getUserTicketsPage(user2.address, 0, 50));
+
+        assertEquals(user2Tickets, [3]);
+
+        // A burned ticket cannot be moved through the trait either
+        block = chain.mineBlock([
+            transfer(2, user2.address, user3.address).by(user2.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.TicketRefunded);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure events priced in a SIP-010 token settle purchases, refunds and withdrawals in that token",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+        const token = `${deployer.address}.mock-token`;
+        const tokenAsset = '.mock-token.mock-usd';
+        const refundWindow = 10;
+
+        // Allowlist the token, fund the buyers and create a token-priced event
+        let block = chain.mineBlock([
+            setPaymentTokenAllowed(token, true).by(deployer.address),
+            Tx.contractCall(
+                'mock-token',
+                'mint',
+                [types.uint(TICKET_PRICE * 10), types.principal(user2.address)],
+                user2.address
+            ),
+            Tx.contractCall(
+                'mock-token',
+                'mint',
+                [types.uint(TICKET_PRICE * 10), types.principal(user3.address)],
+                user3.address
+            ),
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: refundWindow,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed,
+                paymentToken: token
+            }).by(organizer.address)
+        ]);
+
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+
+        const stxBefore = chain.getAssetsMaps().assets['STX'];
+
+        // Both users buy in the token; user2 then refunds
+        block = chain.mineBlock([
+            purchaseTicket(1, { paymentToken: token }).by(user2.address),
+            purchaseTicket(1, { paymentToken: token }).by(user3.address),
+            refundTicket(1, { paymentToken: token }).by(user2.address)
+        ]);
+
+        block.receipts.forEach((receipt) => assertEquals(receipt.result, '(ok true)'));
+
+        // Only the token moved
+        let assets = chain.getAssetsMaps().assets;
+        assertEquals(assets['STX'][user2.address], stxBefore[user2.address]);
+        assertEquals(assets['STX'][user3.address], stxBefore[user3.address]);
+        assertEquals(assets[tokenAsset][user2.address], TICKET_PRICE * 10);
+        assertEquals(assets[tokenAsset][user3.address], TICKET_PRICE * 9);
+        assertEquals(assets[tokenAsset][`${deployer.address}.${CONTRACT_NAME}`], TICKET_PRICE);
+
+        // After the refund window the organizer withdraws in the token
+        for (let i = 0; i < refundWindow + 1; i++)
+        {
+            chain.mineBlock([]);
+        }
+
+        block = chain.mineBlock([
+            withdrawProceeds(1).by(organizer.address),
+            withdrawProceeds(1, { paymentToken: token }).by(organizer.address),
+            withdrawPlatformFees(PLATFORM_FEE).by(deployer.address),
+            withdrawPlatformFees(PLATFORM_FEE, { paymentToken: token }).by(deployer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.InvalidPaymentToken);
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[2].result), ContractError.InsufficientFunds); // no STX fees accrued
+        assertEquals(block.receipts[3].result, '(ok true)');
+
+        assets = chain.getAssetsMaps().assets;
+        assertEquals(assets[tokenAsset][organizer.address], TICKET_PRICE - PLATFORM_FEE);
+        assertEquals(assets[tokenAsset][deployer.address], PLATFORM_FEE);
+        assertEquals(assets[tokenAsset][`${deployer.address}.${CONTRACT_NAME}`], 0);
+
+        const tokenFees = callReadOnly(chain, getPlatformFeesWithdrawn(token));
+
+        assertEquals(tokenFees, PLATFORM_FEE);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure payments must use an allowlisted token that matches the event's asset",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 1000;
+        const token = `${deployer.address}.mock-token`;
+
+        // The token is not allowlisted yet, and only the owner can allowlist it
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed,
+                paymentToken: token
+            }).by(organizer.address),
+            setPaymentTokenAllowed(token, true).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.PaymentTokenNotAllowed);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.NotAuthorized);
+
+        // Create one STX event and one token event
+        block = chain.mineBlock([
+            setPaymentTokenAllowed(token, true).by(deployer.address),
+            Tx.contractCall(
+                'mock-token',
+                'mint',
+                [types.uint(TICKET_PRICE), types.principal(user2.address)],
+                user2.address
+            ),
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed,
+                paymentToken: token
+            }).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[2].result, '(ok true)');
+        assertEquals(block.receipts[3].result, '(ok true)');
+
+        // Paying in the wrong asset fails either way
+        block = chain.mineBlock([
+            purchaseTicket(1, { paymentToken: token }).by(user2.address),
+            purchaseTicket(2).by(user2.address),
+            purchaseTicket(2, { paymentToken: token }).by(user2.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.InvalidPaymentToken);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.InvalidPaymentToken);
+        assertEquals(block.receipts[2].result, '(ok true)');
+
+        const eventData = callReadOnly(chain, getEvent(2))!;
+
+        assertEquals(eventData.paymentToken, token);
+
+        // Cancelling refunds the waitlist, so it also has to name the event's asset
+        block = chain.mineBlock([
+            cancelEvent(2).by(organizer.address),
+            cancelEvent(2, { paymentToken: token }).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.InvalidPaymentToken);
+        assertEquals(block.receipts[1].result, '(ok true)');
+    },
+});
+
+Clarinet.test({
+    name: "Ensure event scanners can validate tickets for their event only and check-ins are recorded",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const scanner = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        // Two events by the same organizer, with a ticket each plus a second for event 1
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            purchaseTickets(1, 2).by(user2.address),
+            purchaseTicket(2).by(user2.address)
+        ]);
+
+        // Only the organizer can appoint scanners
+        block = chain.mineBlock([
+            addEventScanner(1, scanner.address).by(user2.address),
+            addEventScanner(1, scanner.address).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.NotAuthorized);
+        assertEquals(block.receipts[1].result, '(ok true)');
+
+        // Check-in opens on the event date
+        chain.mineEmptyBlockUntil(futureDate);
+
+        // The scanner checks in a ticket for event 1 but not for event 2
+        block = chain.mineBlock([
+            validateTicket(1).by(scanner.address),
+            validateTicket(3).by(scanner.address),
+            validateTicket(2).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[1].result), ContractError.NotAuthorized);
+        assertEquals(block.receipts[2].result, '(ok true)');
+
+        // Verify the check-in history
+        const checkIn = callReadOnly(chain, getTicketCheckIn(1))!;
+
+        assertEquals(checkIn.scanner, scanner.address);
+        assertEquals(checkIn.checkedInAt, block.height);
+
+        const organizerCheckIn = callReadOnly(chain, getTicketCheckIn(2))!;
+
+        assertEquals(organizerCheckIn.scanner, organizer.address);
+
+        assertEquals(callReadOnly(chain, getTicketCheckIn(3)), null);
+
+        const history = callReadOnly(chain, getEventCheckInsPage(1, 0, 50));
+
+        assertEquals(history, [1, 2]);
+
+        // A cancelled event takes no new scanners
+        block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate + 1000,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            cancelEvent(3).by(organizer.address),
+            addEventScanner(3, scanner.address).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[2].result), ContractError.EventCancelled);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure scanner roles lapse at their expiry and can be removed",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const scanner = accounts.get('wallet_3')!;
+        const gateStaff = accounts.get('wallet_4')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            purchaseTickets(1, 2).by(user2.address)
+        ]);
+
+        // Check-in opens on the event date
+        chain.mineEmptyBlockUntil(futureDate);
+
+        const expiresAt = chain.blockHeight + 3;
+
+        block = chain.mineBlock([
+            addEventScanner(1, scanner.address, expiresAt).by(organizer.address),
+            addEventScanner(1, gateStaff.address).by(organizer.address)
+        ]);
+
+        assertEquals(callReadOnly(chain, isEventScanner(1, scanner.address)), true);
+
+        // Mine past the scanner's expiry
+        while (chain.blockHeight < expiresAt)
+        {
+            chain.mineBlock([]);
+        }
+
+        assertEquals(callReadOnly(chain, isEventScanner(1, scanner.address)), false);
+
+        // Remove the other scanner; removing twice fails
+        block = chain.mineBlock([
+            validateTicket(1).by(scanner.address),
+            removeEventScanner(1, gateStaff.address).by(organizer.address),
+            removeEventScanner(1, gateStaff.address).by(organizer.address),
+            validateTicket(2).by(gateStaff.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.NotAuthorized);
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[2].result), ContractError.ScannerNotFound);
+        assertEquals(decodeError(block.receipts[3].result), ContractError.NotAuthorized);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure signed check-in requires a fresh signature from the ticket holder",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            setSignedCheckIn(1, true).by(organizer.address),
+            purchaseTicket(1).by(user2.address)
+        ]);
+
+        // Check-in opens on the event date
+        chain.mineEmptyBlockUntil(futureDate);
+
+        // Plain validation is refused once the event requires signatures
+        block = chain.mineBlock([
+            validateTicket(1).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.SignatureRequired);
+
+        // A screenshot holder signing with their own key fails and rotates the nonce
+        const signedAt = chain.blockHeight;
+        const wrongSignature = await signCheckInChallenge(chain, 1, signedAt, user3);
+        const holderSignature = await signCheckInChallenge(chain, 1, signedAt, user2);
+
+        block = chain.mineBlock([
+            validateTicketSigned(1, signedAt, wrongSignature).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok false)');
+
+        assertEquals(callReadOnly(chain, getTicketNonce(1)), 1);
+
+        // The holder's signature over the old nonce no longer works
+        block = chain.mineBlock([
+            validateTicketSigned(1, signedAt, holderSignature).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok false)');
+
+        // A fresh signature from the holder checks the ticket in
+        const freshSignedAt = chain.blockHeight;
+        const freshSignature = await signCheckInChallenge(chain, 1, freshSignedAt, user2);
+
+        block = chain.mineBlock([
+            validateTicketSigned(1, freshSignedAt, freshSignature).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        const ticketData = callReadOnly(chain, getTicket(1))!;
+
+        assertEquals(ticketData.isUsed, true);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure signed check-in challenges expire and rotate when the ticket is transferred",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+        const challengeWindow = 6;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            purchaseTicket(1).by(user2.address)
+        ]);
+
+        // Check-in opens on the event date
+        chain.mineEmptyBlockUntil(futureDate);
+
+        // A challenge signed too long ago is rejected outright
+        const staleSignedAt = chain.blockHeight;
+        const staleSignature = await signCheckInChallenge(chain, 1, staleSignedAt, user2);
+
+        for (let i = 0; i < challengeWindow + 1; i++)
+        {
+            chain.mineBlock([]);
+        }
+
+        block = chain.mineBlock([
+            validateTicketSigned(1, staleSignedAt, staleSignature).by(organizer.address),
+            validateTicketSigned(1, chain.blockHeight + 100, staleSignature).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.InvalidChallenge);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.InvalidChallenge);
+
+        // The seller signs, then transfers the ticket away
+        const signedAt = chain.blockHeight;
+        const sellerSignature = await signCheckInChallenge(chain, 1, signedAt, user2);
+
+        block = chain.mineBlock([
+            transferTicket(1, user3.address).by(user2.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        block = chain.mineBlock([
+            validateTicketSigned(1, signedAt, sellerSignature).by(user2.address),
+            validateTicketSigned(1, signedAt, sellerSignature).by(organizer.address)
+        ]);
+
+        // Non-scanners cannot submit check-ins, and the seller's signature is void
+        assertEquals(decodeError(block.receipts[0].result), ContractError.NotAuthorized);
+        assertEquals(block.receipts[1].result, '(ok false)');
+
+        // The new owner can check in
+        const newSignedAt = chain.blockHeight;
+        const newOwnerSignature = await signCheckInChallenge(chain, 1, newSignedAt, user3);
+
+        block = chain.mineBlock([
+            validateTicketSigned(1, newSignedAt, newOwnerSignature).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+    },
+});
+
+Clarinet.test({
+    name: "Ensure events move through their lifecycle states and each state gates purchases, refunds and check-in",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const start = chain.blockHeight;
+        const saleStart = start + 5;
+        const saleEnd = start + 10;
+        const checkInStart = start + 15;
+        const eventDate = start + 20;
+        const checkInEnd = eventDate + 5;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: eventDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            setEventSchedule(1, { saleStart, saleEnd, checkInStart, checkInEnd }).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[1].result, '(ok true)');
+
+        // Draft: nothing can be bought yet
+        assertEquals(callReadOnly(chain, getEventStatus(1)), EventStatus.Draft);
+        block = chain.mineBlock([purchaseTicket(1).by(user2.address)]);
+        assertEquals(decodeError(block.receipts[0].result), ContractError.EventNotOnSale);
+
+        // On sale
+        chain.mineEmptyBlockUntil(saleStart);
+        assertEquals(callReadOnly(chain, getEventStatus(1)), EventStatus.OnSale);
+        block = chain.mineBlock([purchaseTicket(1).by(user2.address), purchaseTicket(1).by(user2.address)]);
+        block.receipts.forEach((receipt) => assertEquals(receipt.result, '(ok true)'));
+
+        // Sales closed: no purchases or check-ins, refunds still open
+        chain.mineEmptyBlockUntil(saleEnd);
+        assertEquals(callReadOnly(chain, getEventStatus(1)), EventStatus.SalesClosed);
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user2.address),
+            validateTicket(1).by(organizer.address),
+            refundTicket(2).by(user2.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.EventNotOnSale);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.CheckInClosed);
+        assertEquals(block.receipts[2].result, '(ok true)');
+
+        // Live: check-in only
+        chain.mineEmptyBlockUntil(checkInStart);
+        assertEquals(callReadOnly(chain, getEventStatus(1)), EventStatus.Live);
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user2.address),
+            refundTicket(1).by(user2.address),
+            validateTicket(1).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.EventNotOnSale);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.RefundWindowClosed);
+        assertEquals(block.receipts[2].result, '(ok true)');
+
+        // Completed once the check-in window closes
+        chain.mineEmptyBlockUntil(checkInEnd);
+        assertEquals(callReadOnly(chain, getEventStatus(1)), EventStatus.Completed);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure event schedules must be set by the organizer in order around the event date",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const start = chain.blockHeight;
+        const eventDate = start + 100;
+
+        const setSchedule = (saleStart: number, saleEnd: number, checkInStart: number, checkInEnd: number, sender: Account) => setEventSchedule(1, { saleStart, saleEnd, checkInStart, checkInEnd }).by(sender.address);
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: eventDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            setSchedule(start, start + 50, eventDate - 10, eventDate + 10, user2),
+            setSchedule(start + 50, start, eventDate - 10, eventDate + 10, organizer),
+            setSchedule(start, start + 95, eventDate - 10, eventDate + 10, organizer),
+            setSchedule(start, start + 50, eventDate + 1, eventDate + 10, organizer),
+            setSchedule(start, start + 50, eventDate - 10, eventDate, organizer),
+            setSchedule(start, start + 50, eventDate - 10, eventDate + 10, organizer)
+        ]);
+
+        assertEquals(decodeError(block.receipts[1].result), ContractError.NotAuthorized);
+        assertEquals(decodeError(block.receipts[2].result), ContractError.InvalidSchedule); // sales end before they start
+        assertEquals(decodeError(block.receipts[3].result), ContractError.InvalidSchedule); // sales overlap check-in
+        assertEquals(decodeError(block.receipts[4].result), ContractError.InvalidSchedule); // check-in opens after the date
+        assertEquals(decodeError(block.receipts[5].result), ContractError.InvalidSchedule); // check-in closes at the date
+        assertEquals(block.receipts[6].result, '(ok true)');
+
+        const eventData = callReadOnly(chain, getEvent(1))!;
+
+        assertEquals(eventData.saleEnd, start + 50);
+        assertEquals(eventData.checkInStart, eventDate - 10);
+
+        // Once tickets are sold, opening the doors or ending sales earlier would
+        // cut short the refunds holders bought under, while later is fine
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user2.address),
+            setSchedule(start, start + 50, eventDate - 20, eventDate + 10, organizer),
+            setSchedule(start, start + 40, eventDate - 10, eventDate + 10, organizer),
+            setSchedule(start, start + 60, eventDate - 5, eventDate + 5, organizer)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[1].result), ContractError.SalesStarted);
+        assertEquals(decodeError(block.receipts[2].result), ContractError.SalesStarted);
+        assertEquals(block.receipts[3].result, '(ok true)');
+        assertEquals(callReadOnly(chain, getEvent(1))!.checkInStart, eventDate - 5);
+
+        // Cancelling overrides the schedule
+        block = chain.mineBlock([
+            cancelEvent(1).by(organizer.address)
+        ]);
+
+        const status = callReadOnly(chain, getEventStatus(1));
+
+        assertEquals(status, EventStatus.Cancelled);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure refunds follow the event's refund schedule and return tickets to inventory",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const user4 = accounts.get('wallet_4')!;
+        const user5 = accounts.get('wallet_5')!;
+        const deployer = accounts.get('deployer')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const eventDate = chain.blockHeight + 2000;
+        const fullRefundCutoff = 1008; // 7 days in blocks
+        const halfRefundCutoff = 144; // 1 day in blocks
+
+        // Create a three ticket event refunding 100% until 7 days out and 50% until 1 day out
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: eventDate,
+                totalTickets: 3,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            setRefundSchedule(1, [
+                { blocksBefore: fullRefundCutoff, percent: 100 },
+                { blocksBefore: halfRefundCutoff, percent: 50 }
+            ]).by(organizer.address),
+            purchaseTicket(1).by(user2.address),
+            purchaseTicket(1).by(user3.address),
+            purchaseTicket(1).by(user4.address),
+            purchaseTicket(1).by(user5.address)
+        ]);
+
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[5].result), ContractError.SoldOut);
+
+        // A full refund frees the seat for the next buyer
+        block = chain.mineBlock([refundTicket(1).by(user2.address), purchaseTicket(1).by(user5.address)]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        block.receipts[0].events.expectSTXTransferEvent(TICKET_PRICE, contractPrincipal, user2.address);
+        assertEquals(block.receipts[1].result, '(ok true)');
+
+        // Full refunds last until 7 days out
+        chain.mineEmptyBlockUntil(eventDate - fullRefundCutoff);
+        assertEquals(callReadOnly(chain, getRefundPercent(2)), 100);
+
+        // Then half the price is refunded and the rest kept as revenue
+        chain.mineEmptyBlockUntil(eventDate - fullRefundCutoff + 1);
+        assertEquals(callReadOnly(chain, getRefundPercent(2)), 50);
+
+        block = chain.mineBlock([refundTicket(2).by(user3.address)]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        block.receipts[0].events.expectSTXTransferEvent(TICKET_PRICE / 2, contractPrincipal, user3.address);
+
+        const eventData = callReadOnly(chain, getEvent(1))!;
+
+        assertEquals(eventData.ticketsSold, 2);
+        assertEquals(eventData.ticketsRefunded, 2);
+        assertEquals(eventData.revenue, TICKET_PRICE * 2.5);
+
+        const escrow = callReadOnly(chain, getEventEscrow(1))!;
+
+        assertEquals(escrow.balance, (TICKET_PRICE - PLATFORM_FEE) * 2.5);
+        assertEquals(escrow.platformFees, PLATFORM_FEE * 2.5);
+
+        // Nothing is refunded from 1 day out, which also settles the escrow
+        chain.mineEmptyBlockUntil(eventDate - halfRefundCutoff);
+        assertEquals(callReadOnly(chain, getRefundPercent(3)), 50);
+
+        chain.mineEmptyBlockUntil(eventDate - halfRefundCutoff + 1);
+        assertEquals(callReadOnly(chain, getRefundPercent(3)), 0);
+
+        block = chain.mineBlock([
+            refundTicket(3).by(user4.address),
+            withdrawProceeds(1).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.RefundWindowClosed);
+        assertEquals(block.receipts[1].result, '(ok true)');
+        block.receipts[1].events.expectSTXTransferEvent((TICKET_PRICE - PLATFORM_FEE) * 2.5, contractPrincipal, organizer.address);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure refund schedules are set by the organizer before sales with descending cutoffs and percentages",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 2000;
+
+        const rule = (blocksBefore: number, percent: number) => ({ blocksBefore, percent });
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            setRefundSchedule(1, [rule(1008, 100)]).by(user2.address),
+            setRefundSchedule(1, []).by(organizer.address),
+            setRefundSchedule(1, [rule(144, 100), rule(1008, 50)]).by(organizer.address),
+            setRefundSchedule(1, [rule(1008, 50), rule(144, 100)]).by(organizer.address),
+            setRefundSchedule(1, [rule(1008, 101)]).by(organizer.address),
+            setRefundSchedule(1, [rule(1008, 100), rule(144, 50)]).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[1].result), ContractError.NotAuthorized);
+        assertEquals(decodeError(block.receipts[2].result), ContractError.InvalidRefundSchedule); // no rules
+        assertEquals(decodeError(block.receipts[3].result), ContractError.InvalidRefundSchedule); // cutoffs out of order
+        assertEquals(decodeError(block.receipts[4].result), ContractError.InvalidRefundSchedule); // percentage rises
+        assertEquals(decodeError(block.receipts[5].result), ContractError.InvalidRefundSchedule); // over 100%
+        assertEquals(block.receipts[6].result, '(ok true)');
+
+        // The schedule is fixed once tickets have been sold
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user2.address),
+            setRefundSchedule(1, [rule(144, 100)]).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[1].result), ContractError.SalesStarted);
+
+        // Even after the only ticket sold has been refunded
+        block = chain.mineBlock([
+            refundTicket(1).by(user2.address),
+            setRefundSchedule(1, [rule(144, 100)]).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[1].result), ContractError.SalesStarted);
+
+        const schedule = callReadOnly(chain, getRefundSchedule(1))!;
+
+        assertEquals(schedule.length, 2);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure organizer can edit event details and grow capacity",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            updateEvent(1, { name: 'Hijacked' }).by(user2.address),
+            updateEvent(1, { totalTickets: TOTAL_TICKETS - 1 }).by(organizer.address),
+            updateEvent(1, { ticketPrice: 1 }).by(organizer.address),
+            updateEvent(1, { name: 'Fixed Concert', venue: 'Fixed Venue', totalTickets: TOTAL_TICKETS + 50, category: 'Jazz' }).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[1].result), ContractError.NotAuthorized);
+        assertEquals(decodeError(block.receipts[2].result), ContractError.InvalidCapacity);
+        assertEquals(decodeError(block.receipts[3].result), ContractError.InvalidPrice);
+        assertEquals(block.receipts[4].result, '(ok u1)');
+
+        // The edit is announced, and with no tickets sold nobody is owed a refund
+        block.receipts[4].events.expectPrintEvent(
+            contractPrincipal,
+            `{category: (some u"Jazz"), date: none, description: none, event-id: u1, holder-refunds-until: none, name: (some u"Fixed Concert"), ticket-price: none, topic: "event-updated", total-tickets: (some u${TOTAL_TICKETS + 50}), venue: (some u"Fixed Venue"), version: u1}`
+        );
+
+        const eventData = callReadOnly(chain, getEvent(1))!;
+
+        assertEquals(eventData.name, 'Fixed Concert');
+        assertEquals(eventData.venue, 'Fixed Venue');
+        assertEquals(eventData.category, 'Jazz');
+        assertEquals(eventData.description, EVENT_DESCRIPTION);
+        assertEquals(eventData.totalTickets, TOTAL_TICKETS + 50);
+        assertEquals(eventData.version, 1);
+
+        // The extra capacity is sellable through the default tier
+        const tier = callReadOnly(chain, getTicketTier(1, DEFAULT_TIER_ID))!;
+
+        assertEquals(tier.supply, TOTAL_TICKETS + 50);
+
+        const window = callReadOnly(chain, getChangeRefundWindow(1));
+
+        assertEquals(window, null);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure date and venue changes open a full refund window for existing holders without repricing their tickets",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 2000;
+        const newDate = futureDate + 500;
+        const refundWindow = 10; // 10 blocks
+        const changeRefundDuration = 1008;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: refundWindow,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            purchaseTicket(1).by(user2.address)
+        ]);
+
+        // Mine several blocks to go beyond the refund window
+        for (let i = 0; i < refundWindow + 1; i++)
+        {
+            chain.mineBlock([]);
+        }
+
+        block = chain.mineBlock([refundTicket(1).by(user2.address)]);
+        assertEquals(decodeError(block.receipts[0].result), ContractError.RefundWindowClosed);
+
+        // The organizer moves the event and doubles the price
+        block = chain.mineBlock([
+            updateEvent(1, { date: newDate, ticketPrice: TICKET_PRICE * 2 }).by(organizer.address),
+            purchaseTicket(1).by(user3.address)
+        ]);
+
+        const windowEnd = block.height + changeRefundDuration;
+
+        assertEquals(block.receipts[0].result, '(ok u1)');
+        block.receipts[0].events.expectPrintEvent(
+            contractPrincipal,
+            `{category: none, date: (some u${newDate}), description: none, event-id: u1, holder-refunds-until: (some u${windowEnd}), name: none, ticket-price: (some u${TICKET_PRICE * 2}), topic: "event-updated", total-tickets: none, venue: none, version: u1}`
+        );
+        block.receipts[1].events.expectSTXTransferEvent(TICKET_PRICE * 2, user3.address, contractPrincipal);
+
+        // The check-in window moved with the date
+        const eventData = callReadOnly(chain, getEvent(1))!;
+
+        assertEquals(eventData.checkInStart, newDate);
+
+        for (let i = 0; i < refundWindow + 1; i++)
+        {
+            chain.mineBlock([]);
+        }
+
+        // Only the holder from before the change gets a refund, at the price they paid,
+        // and the organizer cannot withdraw while the change window is open
+        block = chain.mineBlock([refundTicket(1).by(user2.address), refundTicket(2).by(user3.address), withdrawProceeds(1).by(organizer.address)]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        block.receipts[0].events.expectSTXTransferEvent(TICKET_PRICE, contractPrincipal, user2.address);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.RefundWindowClosed);
+        assertEquals(decodeError(block.receipts[2].result), ContractError.FundsLocked);
+
+        // Proceeds settle once the change window closes
+        chain.mineEmptyBlockUntil(windowEnd);
+
+        block = chain.mineBlock([withdrawProceeds(1).by(organizer.address)]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        block.receipts[0].events.expectSTXTransferEvent(TICKET_PRICE * 2 - Math.floor((TICKET_PRICE * 2 * PLATFORM_FEE_PERCENT) / 100), contractPrincipal, organizer.address);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure date and venue changes are rejected once the escrow can no longer cover holder refunds",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 2000;
+
+        // Without a refund window the proceeds settle right after the sale
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: 0,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            purchaseTicket(1).by(user2.address)
+        ]);
+
+        block = chain.mineBlock([
+            withdrawRevenue(1, 1).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        // Changes that would owe the holder a full refund are refused, others go through
+        block = chain.mineBlock([
+            updateEvent(1, { date: futureDate + 500 }).by(organizer.address),
+            updateEvent(1, { venue: 'Fixed Venue' }).by(organizer.address),
+            updateEvent(1, { name: 'Fixed Concert' }).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.RefundsUncovered);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.RefundsUncovered);
+        assertEquals(block.receipts[2].result, '(ok u1)');
+        assertEquals(callReadOnly(chain, getChangeRefundWindow(1)), null);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure event creation and ticket purchases emit indexer events",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            purchaseTicket(1).by(user2.address),
+            purchaseTickets(1, 2).by(user2.address)
+        ]);
+
+        block.receipts[0].events.expectPrintEvent(
+            contractPrincipal,
+            `{date: u${futureDate}, event-id: u1, organizer: ${organizer.address}, payment-token: none, ticket-price: u${TICKET_PRICE}, topic: "event-created", total-tickets: u${TOTAL_TICKETS}}`
+        );
+        block.receipts[1].events.expectPrintEvent(
+            contractPrincipal,
+            `{buyer: ${user2.address}, event-id: u1, price: u${TICKET_PRICE}, ticket-id: u1, tier-id: u${DEFAULT_TIER_ID}, topic: "ticket-purchased"}`
+        );
+
+        // Batch purchases announce every ticket
+        for (const ticketId of [2, 3])
+        {
+            block.receipts[2].events.expectPrintEvent(
+                contractPrincipal,
+                `{buyer: ${user2.address}, event-id: u1, price: u${TICKET_PRICE}, ticket-id: u${ticketId}, tier-id: u${DEFAULT_TIER_ID}, topic: "ticket-purchased"}`
+            );
+        }
+    },
+});
+
+Clarinet.test({
+    name: "Ensure ticket validations and refunds emit indexer events",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 50;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            purchaseTickets(1, 2).by(user2.address)
+        ]);
+
+        block = chain.mineBlock([
+            refundTicket(1).by(user2.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        block.receipts[0].events.expectPrintEvent(
+            contractPrincipal,
+            `{amount: u${TICKET_PRICE}, event-id: u1, owner: ${user2.address}, ticket-id: u1, topic: "ticket-refunded"}`
+        );
+
+        // Check-in opens on the event date
+        chain.mineEmptyBlockUntil(futureDate);
+
+        block = chain.mineBlock([
+            validateTicket(2).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        block.receipts[0].events.expectPrintEvent(
+            contractPrincipal,
+            `{event-id: u1, scanner: ${organizer.address}, ticket-id: u2, topic: "ticket-validated"}`
+        );
+    },
+});
+
+Clarinet.test({
+    name: "Ensure platform setting changes emit indexer events",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+
+        const block = chain.mineBlock([
+            updatePlatformFee(7).by(deployer.address),
+            updateMinTicketPrice(2000000).by(deployer.address)
+        ]);
+
+        block.receipts[0].events.expectPrintEvent(
+            contractPrincipal,
+            `{new-fee: u7, old-fee: u${PLATFORM_FEE_PERCENT}, topic: "fee-updated"}`
+        );
+        block.receipts[1].events.expectPrintEvent(
+            contractPrincipal,
+            `{new-price: u2000000, old-price: u1000000, topic: "min-ticket-price-updated"}`
+        );
+    },
+});
+
+Clarinet.test({
+    name: "Ensure buyers can only join the waitlist of a sold-out event",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: 1,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            joinWaitlist(1).by(user3.address),
+            purchaseTicket(1).by(user2.address),
+            joinWaitlist(1, { maxPrice: TICKET_PRICE - 1 }).by(user3.address),
+            joinWaitlist(1).by(user3.address),
+            joinWaitlist(1).by(user3.address)
+        ]);
+
+        // Tickets are still on sale, so there is nothing to wait for
+        assertEquals(decodeError(block.receipts[1].result), ContractError.NotSoldOut);
+
+        // Nor is anything held above the buyer's max price
+        assertEquals(decodeError(block.receipts[3].result), ContractError.MaxPriceExceeded);
+
+        // Once sold out the price is held in escrow and the buyer is queued once
+        assertEquals(block.receipts[4].result, '(ok u1)');
+        block.receipts[4].events.expectSTXTransferEvent(TICKET_PRICE, user3.address, contractPrincipal);
+        block.receipts[4].events.expectPrintEvent(
+            contractPrincipal,
+            `{amount: u${TICKET_PRICE}, buyer: ${user3.address}, event-id: u1, position: u1, topic: "waitlist-joined"}`
+        );
+        assertEquals(decodeError(block.receipts[5].result), ContractError.AlreadyExists);
+
+        const waitlist = callReadOnly(chain, getWaitlist(1));
+
+        assertEquals(waitlist.head, 1);
+        assertEquals(waitlist.tail, 1);
+        assertEquals(waitlist.length, 1);
+        assertEquals(callReadOnly(chain, getWaitlistPosition(1, user3.address)), 1);
+
+        const entry = callReadOnly(chain, getWaitlistEntry(1, 1))!;
+
+        assertEquals(entry.buyer, user3.address);
+        assertEquals(entry.amount, TICKET_PRICE);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure refunds and added capacity go to the head of the waitlist",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const user4 = accounts.get('wallet_4')!;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: 1,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            purchaseTicket(1).by(user2.address),
+            joinWaitlist(1).by(user3.address),
+            joinWaitlist(1).by(user4.address)
+        ]);
+
+        // The refunded ticket is reissued to the first buyer in the queue
+        block = chain.mineBlock([
+            refundTicket(1).by(user2.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+
+        const reissued = callReadOnly(chain, getTicket(2))!;
+
+        assertEquals(reissued.owner, user3.address);
+        assertEquals(reissued.purchasePrice, TICKET_PRICE);
+        assertEquals(callReadOnly(chain, getWaitlistPosition(1, user3.address)), null);
+        assertEquals(callReadOnly(chain, getWaitlist(1)).head, 2);
+        assertEquals(callReadOnly(chain, getEvent(1))!.ticketsSold, 1);
+
+        // Raising the capacity serves the rest of the queue
+        block = chain.mineBlock([
+            updateEvent(1, { totalTickets: 3 }).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok u1)');
+        assertEquals(callReadOnly(chain, getTicket(3))!.owner, user4.address);
+        assertEquals(callReadOnly(chain, getEvent(1))!.ticketsSold, 2);
+
+        const waitlist = callReadOnly(chain, getWaitlist(1));
+
+        assertEquals(waitlist.head, null);
+        assertEquals(waitlist.tail, null);
+        assertEquals(waitlist.length, 0);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure waitlisted buyers can leave and the queue is refunded once the event is cancelled",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const user4 = accounts.get('wallet_4')!;
+        const user5 = accounts.get('wallet_5')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 1000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: 1,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            purchaseTicket(1).by(user2.address),
+            joinWaitlist(1).by(user3.address),
+            joinWaitlist(1).by(user4.address),
+            joinWaitlist(1).by(user5.address)
+        ]);
+
+        // Leaving from the middle of the queue returns the escrow and relinks the neighbours
+        block = chain.mineBlock([
+            leaveWaitlist(1).by(user4.address),
+            leaveWaitlist(1).by(user4.address),
+            releaseWaitlist(1).by(user2.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        block.receipts[0].events.expectSTXTransferEvent(TICKET_PRICE, contractPrincipal, user4.address);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.NotWaitlisted);
+        assertEquals(callReadOnly(chain, getWaitlistEntry(1, 1))!.next, 3);
+        assertEquals(callReadOnly(chain, getWaitlistEntry(1, 3))!.prev, 1);
+        assertEquals(callReadOnly(chain, getWaitlist(1)).length, 2);
+
+        // The queue stays locked while the event is still running
+        assertEquals(decodeError(block.receipts[2].result), ContractError.EventNotOver);
+
+        // Cancelling refunds the queue straight away, leaving nothing to release
+        block = chain.mineBlock([
+            cancelEvent(1).by(organizer.address),
+            releaseWaitlist(1).by(user2.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        block.receipts[0].events.expectSTXTransferEvent(TICKET_PRICE, contractPrincipal, user3.address);
+        block.receipts[0].events.expectSTXTransferEvent(TICKET_PRICE, contractPrincipal, user5.address);
+        assertEquals(block.receipts[1].result, '(ok u0)');
+        assertEquals(callReadOnly(chain, getWaitlist(1)).length, 0);
+        assertEquals(callReadOnly(chain, getWaitlistPosition(1, user5.address)), null);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure waitlisted buyers past the wallet limit are skipped and claim their own escrow back",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const user4 = accounts.get('wallet_4')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const eventDate = chain.blockHeight + 100;
+        const checkInEnd = eventDate + 10;
+
+        // The holder of the only ticket queues for another ahead of two buyers
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: eventDate,
+                totalTickets: 1,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            setEventSchedule(1, { saleStart: 0, saleEnd: eventDate, checkInStart: eventDate, checkInEnd }).by(organizer.address),
+            purchaseTicket(1).by(user2.address),
+            joinWaitlist(1).by(user2.address),
+            joinWaitlist(1).by(user3.address),
+            joinWaitlist(1).by(user4.address),
+            setWalletLimit(1, 1).by(organizer.address)
+        ]);
+
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+
+        // The refunded purchase still counts against the limit, so the freed ticket
+        // skips the head of the queue and goes to the next buyer
+        block = chain.mineBlock([
+            refundTicket(1).by(user2.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        block.receipts[0].events.expectPrintEvent(
+            contractPrincipal,
+            `{amount: u${TICKET_PRICE}, buyer: ${user2.address}, event-id: u1, position: u1, topic: "waitlist-skipped"}`
+        );
+        assertEquals(callReadOnly(chain, getTicket(2))!.owner, user3.address);
+        assertEquals(callReadOnly(chain, getWaitlistPosition(1, user2.address)), null);
+        assertEquals(callReadOnly(chain, getWaitlistRefund(1, user2.address)), TICKET_PRICE);
+        assertEquals(callReadOnly(chain, getWaitlist(1)).head, 3);
+
+        // The skipped buyer claims the escrow at once, while a queued one waits for the event to end
+        block = chain.mineBlock([
+            claimWaitlistRefund(1).by(user2.address),
+            claimWaitlistRefund(1).by(user2.address),
+            claimWaitlistRefund(1).by(user4.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, `(ok u${TICKET_PRICE})`);
+        block.receipts[0].events.expectSTXTransferEvent(TICKET_PRICE, contractPrincipal, user2.address);
+        assertEquals(callReadOnly(chain, getWaitlistRefund(1, user2.address)), 0);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.NotWaitlisted);
+        assertEquals(decodeError(block.receipts[2].result), ContractError.NotWaitlisted);
+
+        // Once the event is over the buyer still queued claims without a keeper
+        chain.mineEmptyBlockUntil(checkInEnd);
+
+        block = chain.mineBlock([
+            claimWaitlistRefund(1).by(user4.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, `(ok u${TICKET_PRICE})`);
+        block.receipts[0].events.expectSTXTransferEvent(TICKET_PRICE, contractPrincipal, user4.address);
+        assertEquals(callReadOnly(chain, getWaitlist(1)).length, 0);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure only allowlisted buyers can purchase during the presale",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const user4 = accounts.get('wallet_4')!;
+        const outsider = accounts.get('wallet_5')!;
+        const futureDate = chain.blockHeight + 1000;
+        const generalSale = chain.blockHeight + 20;
+        const tree = buildMerkleTree([user2.address, user3.address, user4.address]);
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            setEventSchedule(1, {
+                saleStart: generalSale,
+                saleEnd: futureDate,
+                checkInStart: futureDate,
+                checkInEnd: futureDate + 144
+            }).by(organizer.address),
+            setPresale(1, {
+                merkleRoot: tree.root,
+                start: chain.blockHeight,
+                end: generalSale,
+                walletCap: 2
+            }).by(organizer.address)
+        ]);
+
+        block.receipts.forEach((receipt) => assertEquals(receipt.result, '(ok true)'));
+        assertEquals(callReadOnly(chain, getPresale(1))!.merkleRoot, toHex(tree.root));
+        assertEquals(callReadOnly(chain, isPresaleOpen(1)), true);
+        assertEquals(callReadOnly(chain, isPresaleEligible(1, user4.address, getMerkleProof(tree, user4.address))), true);
+
+        block = chain.mineBlock([
+            presalePurchase(1, getMerkleProof(tree, user2.address)).by(user2.address),
+            presalePurchase(1, getMerkleProof(tree, user4.address)).by(user4.address),
+            presalePurchase(1, getMerkleProof(tree, user2.address)).by(outsider.address),
+            purchaseTicket(1).by(outsider.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(block.receipts[1].result, '(ok true)');
+
+        // Someone else's proof doesn't lead from the outsider's leaf to the root
+        assertEquals(decodeError(block.receipts[2].result), ContractError.NotEligible);
+
+        // General sale hasn't opened yet
+        assertEquals(decodeError(block.receipts[3].result), ContractError.EventNotOnSale);
+
+        assertEquals(callReadOnly(chain, getTicket(1))!.owner, user2.address);
+        assertEquals(callReadOnly(chain, getTicket(2))!.owner, user4.address);
+        assertEquals(callReadOnly(chain, getPresalePurchases(1, user2.address)), 1);
+        assertEquals(callReadOnly(chain, getEvent(1))!.ticketsSold, 2);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure the presale wallet cap and window are enforced",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const futureDate = chain.blockHeight + 1000;
+        const generalSale = chain.blockHeight + 20;
+        const tree = buildMerkleTree([user2.address, user3.address]);
+        const proof = getMerkleProof(tree, user2.address);
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            setEventSchedule(1, {
+                saleStart: generalSale,
+                saleEnd: futureDate,
+                checkInStart: futureDate,
+                checkInEnd: futureDate + 144
+            }).by(organizer.address),
+            setPresale(1, {
+                merkleRoot: tree.root,
+                start: chain.blockHeight,
+                end: generalSale,
+                walletCap: 1
+            }).by(organizer.address),
+            presalePurchase(1, proof, { maxPrice: TICKET_PRICE - 1 }).by(user2.address),
+            presalePurchase(1, proof).by(user2.address),
+            presalePurchase(1, proof).by(user2.address)
+        ]);
+
+        // A rejected max price doesn't count towards the wallet cap
+        assertEquals(decodeError(block.receipts[3].result), ContractError.MaxPriceExceeded);
+        assertEquals(block.receipts[4].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[5].result), ContractError.PresaleLimitReached);
+
+        // The presale closes as general sale opens, where only the regular limits apply
+        chain.mineEmptyBlockUntil(generalSale);
+
+        block = chain.mineBlock([
+            presalePurchase(1, proof).by(user2.address),
+            purchaseTicket(1).by(user2.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.PresaleClosed);
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(callReadOnly(chain, isPresaleOpen(1)), false);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure the presale must end before general sale opens",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 1000;
+        const generalSale = chain.blockHeight + 20;
+        const tree = buildMerkleTree([user2.address]);
+        const presale = { merkleRoot: tree.root, start: chain.blockHeight, end: generalSale, walletCap: 0 };
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            // General sale opened when the event was created
+            setPresale(1, presale).by(organizer.address),
+            setEventSchedule(1, {
+                saleStart: generalSale,
+                saleEnd: futureDate,
+                checkInStart: futureDate,
+                checkInEnd: futureDate + 144
+            }).by(organizer.address),
+            setPresale(1, presale).by(user2.address),
+            setPresale(1, presale).by(organizer.address),
+            // General sale can't be moved back into the presale
+            setEventSchedule(1, {
+                saleStart: generalSale - 1,
+                saleEnd: futureDate,
+                checkInStart: futureDate,
+                checkInEnd: futureDate + 144
+            }).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[1].result), ContractError.InvalidSchedule);
+        assertEquals(decodeError(block.receipts[3].result), ContractError.NotAuthorized);
+        assertEquals(block.receipts[4].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[5].result), ContractError.InvalidSchedule);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure promo codes discount ticket purchases and are recorded on the ticket",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 1000;
+        const percentPrice = TICKET_PRICE * 0.8;
+        const fixedPrice = TICKET_PRICE - 5000000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            addPromoCode(1, {
+                code: 'SPRING20',
+                discountType: DiscountType.Percent,
+                discount: 20,
+                maxUses: 10,
+                expiresAt: futureDate
+            }).by(organizer.address),
+            addPromoCode(1, {
+                code: 'FIVEOFF',
+                discountType: DiscountType.Fixed,
+                discount: 5000000,
+                maxUses: 10,
+                expiresAt: futureDate
+            }).by(organizer.address)
+        ]);
+
+        block = chain.mineBlock([
+            purchaseTicket(1, { promoCode: 'SPRING20' }).by(user2.address),
+            purchaseTicket(1, { promoCode: 'FIVEOFF' }).by(user3.address),
+            purchaseTicket(1).by(user3.address),
+            purchaseTicket(1, { promoCode: 'NOSUCHCODE' }).by(user3.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        block.receipts[0].events.expectSTXTransferEvent(percentPrice, user2.address, contractPrincipal);
+        assertEquals(block.receipts[1].result, '(ok true)');
+        block.receipts[1].events.expectSTXTransferEvent(fixedPrice, user3.address, contractPrincipal);
+        assertEquals(block.receipts[2].result, '(ok true)');
+        block.receipts[2].events.expectSTXTransferEvent(TICKET_PRICE, user3.address, contractPrincipal);
+        assertEquals(decodeError(block.receipts[3].result), ContractError.PromoNotFound);
+
+        const discounted = callReadOnly(chain, getTicket(1))!;
+
+        assertEquals(discounted.purchasePrice, percentPrice);
+        assertEquals(discounted.promoCode, toHex(hashPromoCode('SPRING20')));
+        assertEquals(callReadOnly(chain, getTicket(2))!.promoCode, toHex(hashPromoCode('FIVEOFF')));
+        assertEquals(callReadOnly(chain, getTicket(3))!.promoCode, null);
+        assertEquals(callReadOnly(chain, getEvent(1))!.revenue, percentPrice + fixedPrice + TICKET_PRICE);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure exhausted, expired and invalid promo codes are rejected",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 1000;
+        const expiresAt = chain.blockHeight + 10;
+        const oneUse = {
+            code: 'ONCE',
+            discountType: DiscountType.Percent,
+            discount: 10,
+            maxUses: 1,
+            expiresAt: futureDate
+        };
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            addPromoCode(1, oneUse).by(organizer.address),
+            addPromoCode(1, { ...oneUse, code: 'SOON', maxUses: 5, expiresAt }).by(organizer.address),
+            addPromoCode(1, oneUse).by(organizer.address),
+            addPromoCode(1, { ...oneUse, code: 'MINE' }).by(user2.address),
+            addPromoCode(1, { ...oneUse, code: 'TOOMUCH', discount: 150 }).by(organizer.address),
+            purchaseTicket(1, { promoCode: 'ONCE' }).by(user2.address),
+            purchaseTicket(1, { promoCode: 'ONCE' }).by(user2.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[3].result), ContractError.AlreadyExists);
+        assertEquals(decodeError(block.receipts[4].result), ContractError.NotAuthorized);
+        assertEquals(decodeError(block.receipts[5].result), ContractError.InvalidDiscount);
+        assertEquals(block.receipts[6].result, '(ok true)');
+        assertEquals(decodeError(block.receipts[7].result), ContractError.PromoExhausted);
+
+        chain.mineEmptyBlockUntil(expiresAt);
+
+        block = chain.mineBlock([
+            purchaseTicket(1, { promoCode: 'SOON' }).by(user2.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.PromoExpired);
+        assertEquals(callReadOnly(chain, getPromoCodeReport(1, 'SOON'))!.isExpired, true);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure promo discounts stop at the minimum ticket price and are reported per code",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 1000;
+        const minTicketPrice = 1000000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            addPromoCode(1, {
+                code: 'VIPGUEST',
+                discountType: DiscountType.Fixed,
+                discount: TICKET_PRICE * 2,
+                maxUses: 3,
+                expiresAt: futureDate
+            }).by(organizer.address),
+            purchaseTicket(1, { promoCode: 'VIPGUEST' }).by(user2.address),
+            purchaseTicket(1, { promoCode: 'VIPGUEST' }).by(user3.address)
+        ]);
+
+        // The discount is larger than the price, so the ticket sells at the minimum
+        assertEquals(block.receipts[2].result, '(ok true)');
+        block.receipts[2].events.expectSTXTransferEvent(minTicketPrice, user2.address, contractPrincipal);
+        assertEquals(callReadOnly(chain, getTicket(1))!.purchasePrice, minTicketPrice);
+
+        const report = callReadOnly(chain, getPromoCodeReport(1, 'VIPGUEST'))!;
+
+        assertEquals(report.uses, 2);
+        assertEquals(report.remainingUses, 1);
+        assertEquals(report.totalDiscount, (TICKET_PRICE - minTicketPrice) * 2);
+        assertEquals(report.revenue, minTicketPrice * 2);
+        assertEquals(report.expiresAt, futureDate);
+        assertEquals(report.isExpired, false);
+        assertEquals(callReadOnly(chain, getPromoCodeReport(1, 'UNKNOWN')), null);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure linear pricing steps the price up with tickets sold and stops at the ceiling",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 1000;
+        const stepIncrease = 10000000;
+        const ceilingPrice = TICKET_PRICE + stepIncrease * 2;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            setLinearPricing(1, {
+                stepSize: 2,
+                stepIncrease,
+                floorPrice: TICKET_PRICE,
+                ceilingPrice
+            }).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(callReadOnly(chain, getPricingCurve(1)), {
+            mode: PricingMode.Linear,
+            stepSize: 2,
+            stepIncrease,
+            decayStart: 0,
+            floorPrice: TICKET_PRICE,
+            ceilingPrice
+        });
+        assertEquals(callReadOnly(chain, getCurrentPrice(1)), TICKET_PRICE);
+
+        block = chain.mineBlock([
+            purchaseTickets(1, 2).by(user2.address),
+            purchaseTicket(1, { maxPrice: TICKET_PRICE }).by(user3.address),
+            purchaseTicket(1, { maxPrice: TICKET_PRICE + stepIncrease }).by(user3.address)
+        ]);
+
+        // The batch buys at the base price, then every two sales add a step
+        block.receipts[0].events.expectSTXTransferEvent(TICKET_PRICE, user2.address, contractPrincipal);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.MaxPriceExceeded);
+        assertEquals(block.receipts[2].result, '(ok true)');
+        block.receipts[2].events.expectSTXTransferEvent(TICKET_PRICE + stepIncrease, user3.address, contractPrincipal);
+        assertEquals(callReadOnly(chain, getTicket(3))!.purchasePrice, TICKET_PRICE + stepIncrease);
+        assertEquals(callReadOnly(chain, getCurrentPrice(1)), TICKET_PRICE + stepIncrease);
+
+        // A batch max price holds for every ticket, so climbing past it reverts the batch
+        block = chain.mineBlock([
+            purchaseTickets(1, 5, { maxPrice: TICKET_PRICE + stepIncrease }).by(user2.address),
+            purchaseTickets(1, 5).by(user2.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.MaxPriceExceeded);
+        assertEquals(callReadOnly(chain, getCurrentPrice(1)), ceilingPrice);
+        assertEquals(callReadOnly(chain, getTicket(8))!.purchasePrice, ceilingPrice);
+        assertEquals(callReadOnly(chain, getEvent(1))!.revenue, TICKET_PRICE * 2 + (TICKET_PRICE + stepIncrease) * 2 + ceilingPrice * 4);
+
+        block = chain.mineBlock([
+            clearPricingCurve(1).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(callReadOnly(chain, getPricingCurve(1)), null);
+        assertEquals(callReadOnly(chain, getCurrentPrice(1)), TICKET_PRICE);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure time-decay pricing falls from the ceiling to the floor by the event date",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const decayStart = chain.blockHeight + 10;
+        const futureDate = decayStart + 100;
+        const floorPrice = 10000000;
+        const ceilingPrice = 60000000;
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            setTimeDecayPricing(1, { decayStart, floorPrice, ceilingPrice }).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(callReadOnly(chain, getCurrentPrice(1)), ceilingPrice);
+
+        // Halfway through the decay the price is halfway between the ceiling and the floor
+        chain.mineEmptyBlockUntil(decayStart + 50);
+        assertEquals(callReadOnly(chain, getCurrentPrice(1)), (ceilingPrice + floorPrice) / 2);
+
+        const quoted = callReadOnly(chain, getCurrentPrice(1))!;
+
+        block = chain.mineBlock([
+            purchaseTicket(1, { maxPrice: floorPrice }).by(user2.address),
+            purchaseTicket(1, { maxPrice: quoted }).by(user2.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.MaxPriceExceeded);
+        assertEquals(block.receipts[1].result, '(ok true)');
+
+        const paid = callReadOnly(chain, getTicket(1))!.purchasePrice;
+
+        assertEquals(paid <= quoted && paid > floorPrice, true);
+
+        chain.mineEmptyBlockUntil(futureDate);
+        assertEquals(callReadOnly(chain, getCurrentPrice(1)), floorPrice);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure only the organizer can set a pricing curve and its bounds are checked",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const futureDate = chain.blockHeight + 1000;
+        const linear = {
+            stepSize: 5,
+            stepIncrease: 1000000,
+            floorPrice: TICKET_PRICE,
+            ceilingPrice: TICKET_PRICE * 2
+        };
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow: REFUND_WINDOW,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed
+            }).by(organizer.address),
+            setLinearPricing(1, linear).by(user2.address),
+            setLinearPricing(1, { ...linear, stepSize: 0 }).by(organizer.address),
+            setLinearPricing(1, { ...linear, floorPrice: 1 }).by(organizer.address),
+            setLinearPricing(1, { ...linear, ceilingPrice: TICKET_PRICE - 1 }).by(organizer.address),
+            setTimeDecayPricing(1, { decayStart: futureDate, floorPrice: TICKET_PRICE, ceilingPrice: TICKET_PRICE * 2 }).by(organizer.address),
+            clearPricingCurve(1).by(user2.address),
+            setLinearPricing(99, linear).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[1].result), ContractError.NotAuthorized);
+        assertEquals(decodeError(block.receipts[2].result), ContractError.InvalidQuantity);
+        assertEquals(decodeError(block.receipts[3].result), ContractError.InvalidPrice);
+        assertEquals(decodeError(block.receipts[4].result), ContractError.InvalidPrice);
+        assertEquals(decodeError(block.receipts[5].result), ContractError.InvalidSchedule);
+        assertEquals(decodeError(block.receipts[6].result), ContractError.NotAuthorized);
+        assertEquals(decodeError(block.receipts[7].result), ContractError.EventNotFound);
+        assertEquals(callReadOnly(chain, getPricingCurve(1)), null);
+        assertEquals(callReadOnly(chain, getCurrentPrice(1)), TICKET_PRICE);
+        assertEquals(callReadOnly(chain, getCurrentPrice(99)), null);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure sale proceeds and refunds are split between payees who each withdraw their own balance",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const deployer = accounts.get('deployer')!;
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+        const venue = accounts.get('wallet_4')!;
+        const artist = accounts.get('wallet_5')!;
+        const contractPrincipal = `${deployer.address}.${CONTRACT_NAME}`;
+        const futureDate = chain.blockHeight + 1000;
+        const refundWindow = 10;
+        const proceeds = TICKET_PRICE - PLATFORM_FEE;
+        const revenueSplit = [
+            { payee: organizer.address, share: 5000 },
+            { payee: venue.address, share: 3000 },
+            { payee: artist.address, share: 2000 }
+        ];
+
+        let block = chain.mineBlock([
+            createEvent({
+                name: EVENT_NAME,
+                description: EVENT_DESCRIPTION,
+                venue: EVENT_VENUE,
+                date: futureDate,
+                totalTickets: TOTAL_TICKETS,
+                ticketPrice: TICKET_PRICE,
+                refundWindow,
+                category: EVENT_CATEGORY,
+                transferPolicy: TransferPolicy.Allowed,
+                revenueSplit
+            }).by(organizer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(callReadOnly(chain, getRevenueSplit(1)), { payees: revenueSplit, locked: false });
+
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user2.address),
+            purchaseTicket(1).by(user3.address)
+        ]);
+
+        assertEquals(callReadOnly(chain, getRevenueSplit(1))!.locked, true);
+        assertEquals(callReadOnly(chain, getPayeeStatement(1, venue.address)), {
+            share: 3000,
+            credited: proceeds * 2 * 3000 / BASIS_POINTS,
+            debited: 0,
+            withdrawn: 0,
+            held: proceeds * 2 * 3000 / BASIS_POINTS,
+            balance: proceeds * 2 * 3000 / BASIS_POINTS
+        });
+
+        // A refund comes back out of every payee in the same proportions
+        block = chain.mineBlock([
+            refundTicket(2).by(user3.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        for (const { payee, share } of revenueSplit)
+        {
+            const statement = callReadOnly(chain, getPayeeStatement(1, payee))!;
+
+            assertEquals(statement.debited, proceeds * share / BASIS_POINTS);
+            assertEquals(statement.balance, proceeds * share / BASIS_POINTS);
+        }
+
+        chain.mineEmptyBlock(refundWindow + 1);
+
+        block = chain.mineBlock([
+            withdrawProceeds(1).by(venue.address),
+            withdrawProceeds(1).by(user2.address),
+            withdrawRevenue(1, proceeds).by(artist.address)
+        ]);
+
+        assertEquals(block.receipts[0].result, '(ok true)');
+        block.receipts[0].events.expectSTXTransferEvent(proceeds * 3000 / BASIS_POINTS, contractPrincipal, venue.address);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.NotAuthorized);
+        assertEquals(decodeError(block.receipts[2].result), ContractError.InsufficientFunds);
+
+        const venueStatement = callReadOnly(chain, getPayeeStatement(1, venue.address))!;
+
+        assertEquals(venueStatement.withdrawn, proceeds * 3000 / BASIS_POINTS);
+        assertEquals(venueStatement.balance, 0);
+        assertEquals(callReadOnly(chain, getPayeeStatement(1, organizer.address))!.balance, proceeds * 5000 / BASIS_POINTS);
+        assertEquals(callReadOnly(chain, getEventEscrow(1))!.balance, proceeds * 7000 / BASIS_POINTS);
+        assertEquals(callReadOnly(chain, getOrganizerRevenue(organizer.address))!.pendingWithdrawals, proceeds * 7000 / BASIS_POINTS);
+        assertEquals(callReadOnly(chain, getPayeeStatement(1, user2.address)), null);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure revenue splits must add up and lock once the first ticket sells",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        const organizer = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const venue = accounts.get('wallet_4')!;
+        const artist = accounts.get('wallet_5')!;
+        const futureDate = chain.blockHeight + 1000;
+        // Odd enough that no share of the proceeds divides evenly
+        const ticketPrice = TICKET_PRICE + 1;
+        const params = {
+            name: EVENT_NAME,
+            description: EVENT_DESCRIPTION,
+            venue: EVENT_VENUE,
+            date: futureDate,
+            totalTickets: TOTAL_TICKETS,
+            ticketPrice,
+            refundWindow: REFUND_WINDOW,
+            category: EVENT_CATEGORY,
+            transferPolicy: TransferPolicy.Allowed
+        };
+        const thirds = [
+            { payee: organizer.address, share: 3333 },
+            { payee: venue.address, share: 3333 },
+            { payee: artist.address, share: 3334 }
+        ];
+
+        let block = chain.mineBlock([
+            createEvent({ ...params, revenueSplit: [{ payee: venue.address, share: 9000 }] }).by(organizer.address),
+            createEvent({ ...params, revenueSplit: [{ payee: venue.address, share: 5000 }, { payee: venue.address, share: 5000 }] }).by(organizer.address),
+            createEvent({ ...params, revenueSplit: [{ payee: venue.address, share: 0 }, { payee: artist.address, share: BASIS_POINTS }] }).by(organizer.address),
+            createEvent(params).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.InvalidSplit);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.InvalidSplit);
+        assertEquals(decodeError(block.receipts[2].result), ContractError.InvalidSplit);
+        assertEquals(block.receipts[3].result, '(ok true)');
+
+        // Without a split table the organizer is the only payee
+        assertEquals(callReadOnly(chain, getRevenueSplit(1)), {
+            payees: [{ payee: organizer.address, share: BASIS_POINTS }],
+            locked: false
+        });
+
+        block = chain.mineBlock([
+            setRevenueSplit(1, thirds).by(user2.address),
+            setRevenueSplit(1, []).by(organizer.address),
+            setRevenueSplit(1, thirds).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[0].result), ContractError.NotAuthorized);
+        assertEquals(decodeError(block.receipts[1].result), ContractError.InvalidSplit);
+        assertEquals(block.receipts[2].result, '(ok true)');
+        assertEquals(callReadOnly(chain, getRevenueSplit(1))!.payees, thirds);
+
+        block = chain.mineBlock([
+            purchaseTicket(1).by(user2.address),
+            setRevenueSplit(1, [{ payee: organizer.address, share: BASIS_POINTS }]).by(organizer.address)
+        ]);
+
+        assertEquals(decodeError(block.receipts[1].result), ContractError.SplitLocked);
+
+        // Rounding is left to the last payee, so nothing is lost
+        const proceeds = ticketPrice - callReadOnly(chain, calculatePlatformFee(ticketPrice));
+        const credited = thirds.map(({ payee }) => callReadOnly(chain, getPayeeStatement(1, payee))!.credited);
+
+        assertEquals(credited[0], Math.floor(proceeds * 3333 / BASIS_POINTS));
+        assertEquals(credited.reduce((total, amount) => total + amount, 0), proceeds);
+        assertEquals(callReadOnly(chain, getEventEscrow(1))!.balance, proceeds);
+    },
+});
@@ -0,0 +1,628 @@
+// Randomized scenario engine for the ticketing contract. It generates
+// interleaved create/purchase/validate/refund/cancel/waitlist/withdraw/admin
+// sequences across the Devnet wallets from a fixed seed, checks invariants after
+// every block and shrinks any failing sequence to a minimal reproduction.
+
+import { Tx, Chain, Account } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import type { EventEscrow, EventRecord, RefundRule, TicketRecord } from '../sdk/event_ticket_system.ts';
+import {
+    TransferPolicy,
+    cancelEvent,
+    claimCancellationRefund,
+    collectPlatformFees,
+    createEvent,
+    joinWaitlist,
+    leaveWaitlist,
+    purchaseTicket,
+    purchaseTickets,
+    refundTicket,
+    setRefundSchedule,
+    transferTicket,
+    updateMinTicketPrice,
+    updatePlatformFee,
+    validateTicket,
+    withdrawProceeds,
+    getEvent,
+    getEventEscrow,
+    getLastTokenId,
+    getTicket,
+    getUserTicketCount,
+    getUserTicketsPage,
+} from '../sdk/event_ticket_system.ts';
+import { callReadOnly } from './clarinet.ts';
+
+// Wallets that take part in scenarios; the deployer is also the contract owner
+const ACTORS = ['deployer', 'wallet_1', 'wallet_2', 'wallet_3', 'wallet_4', 'wallet_5'];
+
+// Contract defaults, restored before every run so runs don't leak into each other
+const DEFAULT_PLATFORM_FEE = 5;
+const DEFAULT_MIN_TICKET_PRICE = 1000000;
+
+const TICKET_PRICES = [1000000, 5000000, 50000000];
+const MIN_TICKET_PRICES = [500000, 1000000, 10000000];
+const PAGE_SIZE = 50;
+const MAX_SHRINK_RUNS = 300;
+
+// Who sends an action: an actor by index, or whoever currently holds the
+// ticket or organizes the event the action targets
+export type Sender = number | 'owner' | 'organizer';
+
+// Events and tickets are picked by index into those created in the same run,
+// newest first and wrapping around, so actions stay meaningful as a sequence
+// is shrunk
+export type Action =
+    | { kind: 'create'; by: number; totalTickets: number; price: number; startsIn: number; refundWindow: number }
+    | { kind: 'purchase'; by: number; event: number; quantity: number }
+    | { kind: 'validate'; by: Sender; ticket: number }
+    | { kind: 'refund'; by: Sender; ticket: number }
+    | { kind: 'transfer'; by: Sender; ticket: number; recipient: number }
+    | { kind: 'set-refund-schedule'; by: Sender; event: number; rules: RefundRule[] }
+    | { kind: 'cancel'; by: Sender; event: number }
+    | { kind: 'claim'; by: Sender; ticket: number }
+    | { kind: 'withdraw'; by: Sender; event: number }
+    | { kind: 'collect-fees'; by: number; event: number }
+    | { kind: 'join-waitlist'; by: number; event: number }
+    | { kind: 'leave-waitlist'; by: number; event: number }
+    | { kind: 'set-fee'; by: number; fee: number }
+    | { kind: 'set-min-price'; by: number; price: number }
+    | { kind: 'advance'; blocks: number };
+
+// Each step is mined as one block
+export type Scenario = Action[][];
+
+// Contract state of the events and tickets created in a run, and the amount
+// each refunded ticket was paid back
+export interface Snapshot {
+    events: Map<number, EventRecord>;
+    escrows: Map<number, EventEscrow>;
+    tickets: Map<number, TicketRecord>;
+    userTickets: Map<string, number[]>;
+    refunds: Map<number, number>;
+}
+
+export interface Invariant {
+    name: string;
+    // Returns a description of the violation, or null if it holds
+    check(snapshot: Snapshot): string | null;
+}
+
+export interface ScenarioOptions {
+    seed: number;
+    runs: number;
+    steps: number;
+    invariants?: Invariant[];
+}
+
+export interface Counterexample {
+    seed: number;
+    scenario: Scenario;
+    step: number;
+    invariant: string;
+    message: string;
+}
+
+export const TICKET_INVARIANTS: Invariant[] = [
+    {
+        name: 'tickets-sold <= total-tickets',
+        check(snapshot)
+        {
+            for (const [eventId, event] of snapshot.events) {
+                if (event.ticketsSold > event.totalTickets) {
+                    return `event ${eventId} sold ${event.ticketsSold} of ${event.totalTickets} tickets`;
+                }
+            }
+            return null;
+        },
+    },
+    {
+        name: 'revenue equals the purchase prices less the refunds paid',
+        check(snapshot)
+        {
+            for (const [eventId, event] of snapshot.events) {
+                let expected = 0;
+                for (const [ticketId, ticket] of snapshot.tickets) {
+                    if (ticket.eventId === eventId) {
+                        expected += ticket.purchasePrice - (snapshot.refunds.get(ticketId) ?? 0);
+                    }
+                }
+                if (event.revenue !== expected) {
+                    return `event ${eventId} has revenue ${event.revenue}, tickets add up to ${expected}`;
+                }
+            }
+            return null;
+        },
+    },
+    {
+        name: 'a cancelled event holds every refund it still owes',
+        check(snapshot)
+        {
+            for (const [eventId, event] of snapshot.events) {
+                if (event.isActive) {
+                    continue;
+                }
+                let owed = 0;
+                for (const ticket of snapshot.tickets.values()) {
+                    if (ticket.eventId === eventId && !ticket.isRefunded && !ticket.isUsed) {
+                        owed += ticket.purchasePrice;
+                    }
+                }
+                const escrow = snapshot.escrows.get(eventId)!;
+                if (escrow.balance + escrow.platformFees < owed) {
+                    return `event ${eventId} owes ${owed} in refunds, its escrow holds ${escrow.balance + escrow.platformFees}`;
+                }
+            }
+            return null;
+        },
+    },
+    {
+        name: 'no ticket is both used and refunded',
+        check(snapshot)
+        {
+            for (const [ticketId, ticket] of snapshot.tickets) {
+                if (ticket.isUsed && ticket.isRefunded) {
+                    return `ticket ${ticketId} is used and refunded`;
+                }
+            }
+            return null;
+        },
+    },
+    {
+        name: 'UserTickets agrees with Tickets.owner',
+        check(snapshot)
+        {
+            for (const [user, ticketIds] of snapshot.userTickets) {
+                for (const ticketId of ticketIds) {
+                    const ticket = snapshot.tickets.get(ticketId)!;
+                    if (ticket.owner !== user || ticket.isRefunded) {
+                        return `ticket ${ticketId} is listed under ${user} but owned by ${ticket.owner}`
+                            + (ticket.isRefunded ? ' and refunded' : '');
+                    }
+                }
+                if (new Set(ticketIds).size !== ticketIds.length) {
+                    return `${user} has duplicate entries in [${ticketIds.join(', ')}]`;
+                }
+            }
+            for (const [ticketId, ticket] of snapshot.tickets) {
+                const listed = snapshot.userTickets.get(ticket.owner) ?? [];
+                if (!ticket.isRefunded && !listed.includes(ticketId)) {
+                    return `ticket ${ticketId} is owned by ${ticket.owner} but not listed under them`;
+                }
+            }
+            return null;
+        },
+    },
+];
+
+// Runs seeded scenarios and throws with a shrunk reproduction on the first
+// invariant violation
+export function checkScenarios(chain: Chain, accounts: Map<string, Account>, options: ScenarioOptions)
+{
+    const counterexample = findCounterexample(chain, accounts, options);
+
+    if (counterexample) {
+        throw new Error(formatCounterexample(counterexample));
+    }
+}
+
+// Runs seeded scenarios and returns the first invariant violation, shrunk to
+// the fewest steps and actions that still reproduce it
+export function findCounterexample(chain: Chain, accounts: Map<string, Account>, options: ScenarioOptions): Counterexample | null
+{
+    const invariants = options.invariants ?? TICKET_INVARIANTS;
+    const runner = new ScenarioRunner(chain, accounts, invariants);
+
+    for (let run = 0; run < options.runs; run++) {
+        const seed = options.seed + run;
+        const scenario = generateScenario(mulberry32(seed), options.steps);
+        const failure = runner.run(scenario);
+
+        if (failure) {
+            const shrunk = shrinkScenario(runner, scenario, failure);
+            return { seed, ...shrunk };
+        }
+    }
+    return null;
+}
+
+export function formatCounterexample(counterexample: Counterexample): string
+{
+    const lines = counterexample.scenario.map((step, i) =>
+        `  block ${i + 1}: ${step.length ? step.map(describeAction).join('; ') : '(empty)'}`
+    );
+
+    return [
+        `Invariant "${counterexample.invariant}" violated after block ${counterexample.step + 1} (seed ${counterexample.seed}): ${counterexample.message}`,
+        'Minimal reproduction:',
+        ...lines,
+    ].join('\n');
+}
+
+export function generateScenario(random: () => number, steps: number): Scenario
+{
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+    const int = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+    const actor = () => int(0, ACTORS.length - 1);
+    const sender = (role: 'owner' | 'organizer'): Sender => random() < 0.8 ? role : actor();
+    // Favour recent events and tickets, older ones are mostly past their sale
+    const recent = () => random() < 0.5 ? 0 : int(0, 7);
+    // Events start within 30 blocks, so cutoffs are a few blocks before the date
+    const refundRules = (): RefundRule[] => random() < 0.5
+        ? [{ blocksBefore: 0, percent: pick([25, 50, 75]) }]
+        : [{ blocksBefore: int(5, 15), percent: 100 }, { blocksBefore: 0, percent: pick([25, 50, 75]) }];
+
+    // Weighted towards purchases so events fill up and sell out
+    const makers: [number, () => Action][] = [
+        [3, () => ({ kind: 'create', by: actor(), totalTickets: int(1, 6), price: pick(TICKET_PRICES), startsIn: int(5, 30), refundWindow: int(0, 20) })],
+        [6, () => ({ kind: 'purchase', by: actor(), event: recent(), quantity: random() < 0.7 ? 1 : int(2, 4) })],
+        [2, () => ({ kind: 'validate', by: sender('organizer'), ticket: recent() })],
+        [2, () => ({ kind: 'refund', by: sender('owner'), ticket: recent() })],
+        [2, () => ({ kind: 'transfer', by: sender('owner'), ticket: recent(), recipient: actor() })],
+        [2, () => ({ kind: 'set-refund-schedule', by: sender('organizer'), event: recent(), rules: refundRules() })],
+        [1, () => ({ kind: 'cancel', by: sender('organizer'), event: recent() })],
+        [2, () => ({ kind: 'claim', by: sender('owner'), ticket: recent() })],
+        [1, () => ({ kind: 'withdraw', by: sender('organizer'), event: recent() })],
+        [1, () => ({ kind: 'collect-fees', by: random() < 0.8 ? 0 : actor(), event: recent() })],
+        [2, () => ({ kind: 'join-waitlist', by: actor(), event: recent() })],
+        [1, () => ({ kind: 'leave-waitlist', by: actor(), event: recent() })],
+        [1, () => ({ kind: 'set-fee', by: random() < 0.8 ? 0 : actor(), fee: int(0, 20) })],
+        [1, () => ({ kind: 'set-min-price', by: random() < 0.8 ? 0 : actor(), price: pick(MIN_TICKET_PRICES) })],
+    ];
+    const totalWeight = makers.reduce((sum, [weight]) => sum + weight, 0);
+    const makeAction = () => {
+        let roll = random() * totalWeight;
+        for (const [weight, make] of makers) {
+            roll -= weight;
+            if (roll < 0) {
+                return make();
+            }
+        }
+        return makers[0][1]();
+    };
+
+    // An event refunding part of the price that is cancelled after a partial
+    // refund, so the kept share and the remaining claims meet in one escrow
+    const cancelAfterPartialRefund = (): Scenario => [
+        [{ kind: 'create', by: actor(), totalTickets: int(2, 6), price: pick(TICKET_PRICES), startsIn: int(10, 30), refundWindow: int(0, 20) }],
+        [{ kind: 'set-refund-schedule', by: 'organizer', event: 0, rules: [{ blocksBefore: 0, percent: pick([25, 50, 75]) }] }],
+        [{ kind: 'purchase', by: actor(), event: 0, quantity: 2 }],
+        [{ kind: 'refund', by: 'owner', ticket: 0 }],
+        [{ kind: 'withdraw', by: 'organizer', event: 0 }, { kind: 'cancel', by: 'organizer', event: 0 }],
+        [{ kind: 'withdraw', by: 'organizer', event: 0 }, { kind: 'claim', by: 'owner', ticket: 1 }],
+    ];
+
+    const scenario: Scenario = [];
+    while (scenario.length < steps) {
+        const roll = random();
+        if (roll < 0.15) {
+            scenario.push([{ kind: 'advance', blocks: int(1, 30) }]);
+        } else if (roll < 0.2) {
+            scenario.push(...cancelAfterPartialRefund().slice(0, steps - scenario.length));
+        } else {
+            scenario.push(Array.from({ length: int(1, 3) }, makeAction));
+        }
+    }
+    return scenario;
+}
+
+// Removes steps, then single actions, then simplifies the remaining actions,
+// keeping every change that still breaks the same invariant
+function shrinkScenario(runner: ScenarioRunner, scenario: Scenario, failure: Failure): Omit<Counterexample, 'seed'>
+{
+    const invariant = failure.invariant;
+    let best = scenario;
+    let budget = MAX_SHRINK_RUNS;
+
+    const attempt = (candidate: Scenario) => {
+        if (budget-- <= 0) {
+            return false;
+        }
+        const result = runner.run(candidate);
+        if (result && result.invariant === invariant) {
+            best = candidate;
+            failure = result;
+            return true;
+        }
+        return false;
+    };
+
+    // Drop chunks of steps, halving the chunk size down to single steps
+    for (let size = Math.ceil(best.length / 2); size >= 1; size = size > 1 ? Math.ceil(size / 2) : 0) {
+        for (let start = 0; start < best.length;) {
+            if (!attempt([...best.slice(0, start), ...best.slice(start + size)])) {
+                start += size;
+            }
+        }
+    }
+
+    // Drop single actions from steps that batch several
+    for (let step = 0; step < best.length; step++) {
+        for (let i = 0; i < best[step].length && best[step].length > 1;) {
+            const actions = best[step].filter((_, j) => j !== i);
+            if (!attempt(best.map((s, j) => j === step ? actions : s))) {
+                i++;
+            }
+        }
+    }
+
+    // Simplify what's left, e.g. buy one ticket at a time
+    for (let step = 0; step < best.length; step++) {
+        for (let i = 0; i < best[step].length; i++) {
+            let simplified = true;
+            while (simplified) {
+                simplified = simplifyAction(best[step][i]).some((simpler) =>
+                    attempt(best.map((s, j) => j === step ? s.map((a, k) => k === i ? simpler : a) : s))
+                );
+            }
+        }
+    }
+
+    return { scenario: best, step: failure.step, invariant: failure.invariant, message: failure.message };
+}
+
+function simplifyAction(action: Action): Action[]
+{
+    const candidates: Action[] = [];
+
+    if ('event' in action && action.event > 0) {
+        candidates.push({ ...action, event: 0 });
+    }
+    if ('ticket' in action && action.ticket > 0) {
+        candidates.push({ ...action, ticket: 0 });
+    }
+    if (action.kind === 'purchase' && action.quantity > 1) {
+        candidates.push({ ...action, quantity: 1 });
+    }
+    if (action.kind === 'advance' && action.blocks > 1) {
+        candidates.push({ ...action, blocks: Math.ceil(action.blocks / 2) });
+    }
+    return candidates;
+}
+
+function describeAction(action: Action): string
+{
+    const who = (by: Sender) => typeof by === 'number' ? ACTORS[by] : by;
+    const nth = (index: number) => index === 0 ? 'the latest' : `the ${index} before the latest`;
+
+    switch (action.kind) {
+        case 'create':
+            return `create-event by ${who(action.by)} (${action.totalTickets} tickets at ${action.price}, in ${action.startsIn} blocks, refund window ${action.refundWindow})`;
+        case 'purchase':
+            return `purchase ${action.quantity} for ${nth(action.event)} event by ${who(action.by)}`;
+        case 'validate':
+            return `validate ${nth(action.ticket)} ticket by ${who(action.by)}`;
+        case 'refund':
+            return `refund ${nth(action.ticket)} ticket by ${who(action.by)}`;
+        case 'transfer':
+            return `transfer ${nth(action.ticket)} ticket by ${who(action.by)} to ${ACTORS[action.recipient]}`;
+        case 'set-refund-schedule': {
+            const rules = action.rules.map((rule) => `${rule.percent}% until ${rule.blocksBefore} blocks out`).join(', ');
+            return `set-refund-schedule for ${nth(action.event)} event by ${who(action.by)} (${rules})`;
+        }
+        case 'cancel':
+            return `cancel ${nth(action.event)} event by ${who(action.by)}`;
+        case 'claim':
+            return `claim a cancellation refund for ${nth(action.ticket)} ticket by ${who(action.by)}`;
+        case 'withdraw':
+            return `withdraw-proceeds of ${nth(action.event)} event by ${who(action.by)}`;
+        case 'collect-fees':
+            return `collect-platform-fees of ${nth(action.event)} event by ${who(action.by)}`;
+        case 'join-waitlist':
+            return `join the waitlist of ${nth(action.event)} event by ${who(action.by)}`;
+        case 'leave-waitlist':
+            return `leave the waitlist of ${nth(action.event)} event by ${who(action.by)}`;
+        case 'set-fee':
+            return `update-platform-fee ${action.fee} by ${who(action.by)}`;
+        case 'set-min-price':
+            return `update-min-ticket-price ${action.price} by ${who(action.by)}`;
+        case 'advance':
+            return `advance ${action.blocks} blocks`;
+    }
+}
+
+// Small seedable PRNG so a seed always generates the same scenarios
+function mulberry32(seed: number): () => number
+{
+    let state = seed >>> 0;
+
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+interface Failure {
+    step: number;
+    invariant: string;
+    message: string;
+}
+
+// Replays scenarios on one chain. Every run works only on the events and
+// tickets it creates itself, so replaying a sequence while shrinking behaves
+// the same as the original run
+class ScenarioRunner
+{
+    private nextEventId = 1;
+    private addresses: string[];
+    private deployer: string;
+
+    constructor(private chain: Chain, accounts: Map<string, Account>, private invariants: Invariant[])
+    {
+        this.addresses = ACTORS.map((name) => accounts.get(name)!.address);
+        this.deployer = accounts.get('deployer')!.address;
+    }
+
+    run(scenario: Scenario): Failure | null
+    {
+        const events: number[] = [];
+        const tickets: number[] = [];
+        const refunds = new Map<number, number>();
+
+        this.chain.mineBlock([
+            updatePlatformFee(DEFAULT_PLATFORM_FEE).by(this.deployer),
+            updateMinTicketPrice(DEFAULT_MIN_TICKET_PRICE).by(this.deployer),
+        ]);
+
+        for (let step = 0; step < scenario.length; step++) {
+            const actions = scenario[step];
+
+            if (actions.length === 1 && actions[0].kind === 'advance') {
+                this.chain.mineEmptyBlock(actions[0].blocks);
+            } else {
+                const firstTicket = callReadOnly(this.chain, getLastTokenId()) + 1;
+                const txs = actions.map((action) => this.toTx(action, events, tickets))
+                    .filter((tx): tx is Tx => tx !== null);
+
+                const block = this.chain.mineBlock(txs);
+
+                // Partial refunds leave part of the price with the event
+                for (const receipt of block.receipts) {
+                    for (const event of receipt.events) {
+                        const value: string = event.contract_event?.value ?? '';
+                        if (value.includes('topic: "ticket-refunded"')) {
+                            const ticketId = Number(/ticket-id: u(\d+)/.exec(value)![1]);
+                            refunds.set(ticketId, Number(/amount: u(\d+)/.exec(value)![1]));
+                        }
+                    }
+                }
+
+                for (let ticketId = firstTicket; ticketId <= callReadOnly(this.chain, getLastTokenId()); ticketId++) {
+                    tickets.push(ticketId);
+                }
+                while (callReadOnly(this.chain, getEvent(this.nextEventId))) {
+                    events.push(this.nextEventId++);
+                }
+            }
+
+            const snapshot = this.snapshot(events, tickets, refunds);
+            for (const invariant of this.invariants) {
+                const message = invariant.check(snapshot);
+                if (message) {
+                    return { step, invariant: invariant.name, message };
+                }
+            }
+        }
+        return null;
+    }
+
+    // Builds the transaction for an action, or null if it targets an event or
+    // ticket the run hasn't created yet
+    private toTx(action: Action, events: number[], tickets: number[]): Tx | null
+    {
+        const eventAt = (index: number) => events.length ? events[events.length - 1 - index % events.length] : null;
+        const ticketAt = (index: number) => tickets.length ? tickets[tickets.length - 1 - index % tickets.length] : null;
+        const sender = (by: Sender, eventId: number, ticketId?: number) => {
+            if (by === 'owner') {
+                return callReadOnly(this.chain, getTicket(ticketId!))!.owner;
+            }
+            if (by === 'organizer') {
+                return callReadOnly(this.chain, getEvent(eventId))!.organizer;
+            }
+            return this.addresses[by];
+        };
+
+        switch (action.kind) {
+            case 'create':
+                return createEvent({
+                    name: 'Scenario Event',
+                    description: 'Generated by the scenario engine',
+                    venue: 'Scenario Venue',
+                    date: this.chain.blockHeight + action.startsIn,
+                    totalTickets: action.totalTickets,
+                    ticketPrice: action.price,
+                    refundWindow: action.refundWindow,
+                    category: 'Test',
+                    transferPolicy: TransferPolicy.Allowed
+                }).by(this.addresses[action.by]);
+            case 'purchase': {
+                const eventId = eventAt(action.event);
+                if (eventId === null) {
+                    return null;
+                }
+                const call = action.quantity > 1 ? purchaseTickets(eventId, action.quantity) : purchaseTicket(eventId);
+                return call.by(this.addresses[action.by]);
+            }
+            case 'set-refund-schedule':
+            case 'cancel':
+            case 'withdraw':
+            case 'collect-fees': {
+                const eventId = eventAt(action.event);
+                if (eventId === null) {
+                    return null;
+                }
+                switch (action.kind) {
+                    case 'set-refund-schedule':
+                        return setRefundSchedule(eventId, action.rules).by(sender(action.by, eventId));
+                    case 'cancel':
+                        return cancelEvent(eventId).by(sender(action.by, eventId));
+                    case 'withdraw':
+                        return withdrawProceeds(eventId).by(sender(action.by, eventId));
+                    case 'collect-fees':
+                        return collectPlatformFees(eventId).by(this.addresses[action.by]);
+                }
+            }
+            case 'join-waitlist':
+            case 'leave-waitlist': {
+                const eventId = eventAt(action.event);
+                if (eventId === null) {
+                    return null;
+                }
+                const call = action.kind === 'join-waitlist' ? joinWaitlist(eventId) : leaveWaitlist(eventId);
+                return call.by(this.addresses[action.by]);
+            }
+            case 'validate':
+            case 'refund':
+            case 'transfer':
+            case 'claim': {
+                const ticketId = ticketAt(action.ticket);
+                if (ticketId === null) {
+                    return null;
+                }
+                const by = sender(action.by, callReadOnly(this.chain, getTicket(ticketId))!.eventId, ticketId);
+                switch (action.kind) {
+                    case 'validate':
+                        return validateTicket(ticketId).by(by);
+                    case 'refund':
+                        return refundTicket(ticketId).by(by);
+                    case 'transfer':
+                        return transferTicket(ticketId, this.addresses[action.recipient]).by(by);
+                    case 'claim':
+                        return claimCancellationRefund(ticketId).by(by);
+                }
+            }
+            case 'set-fee':
+                return updatePlatformFee(action.fee).by(this.addresses[action.by]);
+            case 'set-min-price':
+                return updateMinTicketPrice(action.price).by(this.addresses[action.by]);
+            case 'advance':
+                return null;
+        }
+    }
+
+    private snapshot(events: number[], tickets: number[], refunds: Map<number, number>): Snapshot
+    {
+        const snapshot: Snapshot = { events: new Map(), escrows: new Map(), tickets: new Map(), userTickets: new Map(), refunds };
+
+        for (const eventId of events) {
+            snapshot.events.set(eventId, callReadOnly(this.chain, getEvent(eventId))!);
+            snapshot.escrows.set(eventId, callReadOnly(this.chain, getEventEscrow(eventId))!);
+        }
+        for (const ticketId of tickets) {
+            snapshot.tickets.set(ticketId, callReadOnly(this.chain, getTicket(ticketId))!);
+        }
+
+        // Only this run's tickets; earlier runs leave tickets in the same wallets
+        for (const address of this.addresses) {
+            const ticketIds: number[] = [];
+            const count = callReadOnly(this.chain, getUserTicketCount(address));
+            for (let offset = 0; offset < count; offset += PAGE_SIZE) {
+                ticketIds.push(...callReadOnly(this.chain, getUserTicketsPage(address, offset, PAGE_SIZE)));
+            }
+            snapshot.userTickets.set(address, ticketIds.filter((ticketId) => snapshot.tickets.has(ticketId)));
+        }
+
+        return snapshot;
+    }
+}
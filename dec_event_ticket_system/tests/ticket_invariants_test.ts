@@ -0,0 +1,39 @@
+import { Clarinet, Chain, Account } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { checkScenarios, findCounterexample } from './scenario.ts';
+
+// Fixed so failures reproduce; bump it to explore other sequences
+const SEED = 20240;
+const RUNS = 6;
+const STEPS = 30;
+
+Clarinet.test({
+    name: "Ensure ticket invariants hold across randomized scenarios",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        checkScenarios(chain, accounts, { seed: SEED, runs: RUNS, steps: STEPS });
+    },
+});
+
+Clarinet.test({
+    name: "Ensure failing scenarios shrink to a minimal reproduction",
+    async fn(chain: Chain, accounts: Map<string, Account>)
+    {
+        // Deliberately false: any sale breaks it
+        const counterexample = findCounterexample(chain, accounts, {
+            seed: SEED,
+            runs: RUNS,
+            steps: STEPS,
+            invariants: [{
+                name: 'nothing is ever sold',
+                check: (snapshot) => [...snapshot.events.values()].some((event) => event.ticketsSold > 0) ? 'a ticket was sold' : null,
+            }],
+        })!;
+
+        // An event has to exist before a later block can buy a ticket for it
+        assertEquals(counterexample.invariant, 'nothing is ever sold');
+        assertEquals(counterexample.scenario.length, 2);
+        assertEquals(counterexample.scenario.map((step) => step.map((action) => action.kind)), [['create'], ['purchase']]);
+        assertEquals(counterexample.step, 1);
+    },
+});